@@ -1,4 +1,6 @@
 import type { Endpoints } from "@apps/server";
 import { createEndpoints } from "@reactivly/client-react";
 
-export const endpointClient = createEndpoints<Endpoints>();
+export const endpointClient = createEndpoints<Endpoints>({
+  url: "ws://localhost:3001",
+});
@@ -1,4 +1,6 @@
 import { createEndpoints } from "@reactivly/client-vue";
 import type { Endpoints } from "@apps/server";
 
-export const endpointClient = createEndpoints<Endpoints>();
+export const endpointClient = createEndpoints<Endpoints>({
+  url: "ws://localhost:3001",
+});
@@ -13,6 +13,7 @@ import {
   query,
   globalNotifier,
   globalStore,
+  guard,
   mutation,
   sessionStore,
 } from "@reactivly/server";
@@ -47,13 +48,17 @@ const { actions: endpoints } = createReactiveWSServer(() => {
   });
   const fsNotifier = createFsNotifier();
 
+  const requireLogin = guard({
+    deps: [sessionUser],
+    check: () => sessionUser.get() !== null,
+    code: "unauthorized",
+  });
+
   return {
     getMyOrders: query({
       schema: z.object({ userId: z.number() }),
-      deps: [sessionUser],
+      use: [requireLogin],
       async fn({ userId }: { userId: number }) {
-        const user = sessionUser.get();
-        if (!user) return [];
         return db.select().from(items).where(eq(items.id, userId));
       },
     }),
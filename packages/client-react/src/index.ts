@@ -2,84 +2,369 @@ import {
   useQuery,
   useMutation,
   useQueryClient,
+  type QueryClient,
   type UseQueryResult,
   type UseMutationResult,
 } from "@tanstack/react-query";
-import type z from "zod";
-import { wsClient } from "@reactivly/client-ws";
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import {
+  EndpointsWSClient,
+  EndpointError,
+  jsonCodec,
+} from "@reactivly/client-ws";
+import {
+  applyOptimistic,
+  hydrateQueries,
+  liveQueryFn,
+  rollbackOptimistic,
+  type OptimisticSnapshot,
+} from "@reactivly/client-ws/tanstack";
+import type {
+  ClientStoreKeys,
+  ClientStoreValue,
+  ConnectionStatus,
+  DehydratedState,
+  EndpointParams,
+  EndpointResult,
+  MutationKeys,
+  OptimisticUpdates,
+  QueryKeys,
+  EndpointsWSClientOptions,
+} from "@reactivly/client-ws";
 
-// Initialize the singleton WS client
-wsClient.init("ws://localhost:3001");
+export { EndpointError, EndpointsWSClient };
+export {
+  memoryOutbox,
+  localStorageOutbox,
+  indexedDbOutbox,
+} from "@reactivly/client-ws";
+export type {
+  ErrorCode,
+  ErrorIssue,
+  OptimisticUpdates,
+  EndpointsWSClientOptions,
+  DehydratedState,
+  ConnectionState,
+  ConnectionStatus,
+  OutboxEntry,
+  OutboxStorage,
+} from "@reactivly/client-ws";
 
-export function createEndpoints<
-  Endpoints extends Record<string, { type: string }>,
->() {
-  type EndpointParams<K extends EndpointKeys> = Endpoints[K] extends {
-    input: z.ZodTypeAny;
-  }
-    ? z.infer<Endpoints[K]["input"]>
-    : undefined;
+export interface EndpointsOptions extends EndpointsWSClientOptions {
+  /** Server URL, e.g. `ws://localhost:3001` */
+  url?: string;
+  /**
+   * Client to use instead of one created for `url`. Without either, hooks
+   * use the client of the closest `ReactivlyProvider`.
+   */
+  client?: EndpointsWSClient;
+  /**
+   * First element of the query keys, to tell apart backends sharing a
+   * QueryClient
+   */
+  name?: string;
+}
 
-  type EndpointResult<K extends EndpointKeys> = Endpoints[K] extends {
-    fetch: (...args: any) => infer R;
-  }
-    ? Awaited<R>
-    : never;
+const ClientContext = createContext<EndpointsWSClient | null>(null);
 
-  type EndpointKeys = keyof Endpoints;
+/** Client used below it by `createEndpoints()` hooks without one of their own */
+export function ReactivlyProvider(props: {
+  client: EndpointsWSClient;
+  children?: ReactNode;
+}) {
+  return createElement(
+    ClientContext.Provider,
+    { value: props.client },
+    props.children
+  );
+}
+
+export interface MutationOptions<
+  Endpoints extends Record<string, any>,
+  K extends keyof Endpoints,
+> {
+  /** Cached query results to patch until the server answers */
+  optimistic?: OptimisticUpdates<Endpoints, K>;
+}
+
+/** Result of `useLiveQuery` */
+export interface LiveQueryState<T> {
+  /** Latest result, kept when the subscription is revoked */
+  data: T | undefined;
+  error: EndpointError | undefined;
+  status: "pending" | "success" | "error";
+}
+
+export interface LiveQueryOptions {
+  /** Suspend until the first result, throwing a failure to the error boundary */
+  suspense?: boolean;
+}
 
-  // Only queries
-  type QueryKeys = {
-    [K in EndpointKeys]: Endpoints[K]["type"] extends "query" ? K : never;
-  }[EndpointKeys];
+// Unobserved subscriptions of `useLiveQuery` are released this long after
+// their first result, so that suspended renders and StrictMode remounts keep
+// theirs (ms)
+const RELEASE_DELAY = 1000;
+
+/** Subscription shared by the `useLiveQuery` calls of one query and params */
+interface LiveEntry {
+  state: LiveQueryState<any>;
+  /** Settles with the first result or failure, thrown to Suspense */
+  ready: Promise<void>;
+  listen: (listener: () => void) => () => void;
+}
+
+const liveEntries = new WeakMap<EndpointsWSClient, Map<string, LiveEntry>>();
+
+function liveEntry(
+  wsClient: EndpointsWSClient,
+  endpoint: string,
+  params: unknown
+): LiveEntry {
+  let entries = liveEntries.get(wsClient);
+  if (!entries) liveEntries.set(wsClient, (entries = new Map()));
+  const key = endpoint + jsonCodec.encode(params ?? null);
+  const existing = entries.get(key);
+  if (existing) return existing;
+
+  const listeners = new Set<() => void>();
+  let settle = () => {};
+  let releaseTimer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleRelease = () => {
+    // Suspended renders only listen once the first result is in
+    if (releaseTimer || entry.state.status === "pending") return;
+    releaseTimer = setTimeout(() => {
+      entries.delete(key);
+      unsubscribe();
+    }, RELEASE_DELAY);
+  };
+
+  const entry: LiveEntry = {
+    state: { data: undefined, error: undefined, status: "pending" },
+    ready: new Promise<void>((resolve) => (settle = resolve)),
+    listen(listener) {
+      clearTimeout(releaseTimer);
+      releaseTimer = undefined;
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) scheduleRelease();
+      };
+    },
+  };
+  const update = (state: LiveQueryState<any>) => {
+    entry.state = state;
+    settle();
+    listeners.forEach((listener) => listener());
+    if (listeners.size === 0) scheduleRelease();
+  };
+  entries.set(key, entry);
+
+  const unsubscribe = wsClient.subscribe(
+    endpoint,
+    params,
+    (data) => update({ data, error: undefined, status: "success" }),
+    (error) => update({ data: entry.state.data, error, status: "error" })
+  );
+  return entry;
+}
 
-  // Only mutations
-  type MutationKeys = {
-    [K in EndpointKeys]: Endpoints[K]["type"] extends "mutation" ? K : never;
-  }[EndpointKeys];
+/** Typed hooks for the endpoints of a server, with a client per call */
+export function createEndpoints<Endpoints extends Record<string, any>>(
+  options: EndpointsOptions = {}
+) {
+  type Params<K extends keyof Endpoints> = EndpointParams<Endpoints[K]>;
+  type Result<K extends keyof Endpoints> = EndpointResult<Endpoints[K]>;
+  type Value<K extends keyof Endpoints> = ClientStoreValue<Endpoints[K]>;
+
+  const { url, client = null, name: keyName, ...clientOptions } = options;
+  const ownClient =
+    client ?? (url ? new EndpointsWSClient(url, clientOptions) : null);
+  const prefix = keyName === undefined ? [] : [keyName];
+
+  function useClient() {
+    const provided = useContext(ClientContext);
+    const wsClient = ownClient ?? provided;
+    if (!wsClient)
+      throw new Error(
+        "createEndpoints needs a `url`, a `client` or a ReactivlyProvider"
+      );
+    return wsClient;
+  }
 
   return {
+    /** Client of these hooks, `null` when taken from a ReactivlyProvider */
+    client: ownClient,
+
+    /**
+     * Seed `queryClient` with the results of a server render
+     * (`ssr().dehydrate()`), before rendering on the server and before
+     * hydrating in the browser. Mounted queries then subscribe without
+     * waiting for, nor receiving, their first result again.
+     */
+    hydrate(
+      queryClient: QueryClient,
+      state: string | DehydratedState,
+      wsClient: EndpointsWSClient | null = ownClient
+    ) {
+      hydrateQueries(queryClient, prefix, state, wsClient);
+    },
+
     // Queries (reactive subscriptions)
-    query<K extends QueryKeys>(
+    query<K extends QueryKeys<Endpoints>>(
       endpoint: K,
-      params?: EndpointParams<K>
-    ): UseQueryResult<EndpointResult<K>> {
+      params?: Params<K>
+    ): UseQueryResult<Result<K>, EndpointError> {
       const queryClient = useQueryClient();
+      const wsClient = useClient();
+      const queryKey = [...prefix, endpoint, params ?? {}];
 
-      return useQuery<EndpointResult<K>>({
-        queryKey: [endpoint, params ?? {}],
+      return useQuery<Result<K>, EndpointError>({
+        queryKey,
         queryFn: () =>
-          new Promise<EndpointResult<K>>((resolve) => {
-            wsClient.subscribe(
-              endpoint as string,
-              params ?? (undefined as any),
-              (data) => {
-                resolve(data);
-                queryClient.setQueryData([endpoint, params ?? {}], data);
-              }
-            );
-          }),
+          liveQueryFn<Result<K>>(
+            queryClient,
+            wsClient,
+            queryKey,
+            endpoint,
+            params
+          ),
         staleTime: Infinity,
+        retry: false,
       });
     },
 
-    // Mutations (imperative actions)
-    mutation<K extends MutationKeys>(
-      endpoint: K
-    ): UseMutationResult<EndpointResult<K>, unknown, EndpointParams<K>> {
+    // Live queries without TanStack Query, shared by the components following
+    // the same query and params
+    useLiveQuery<K extends QueryKeys<Endpoints>>(
+      endpoint: K,
+      params?: Params<K>,
+      opts: LiveQueryOptions = {}
+    ): LiveQueryState<Result<K>> {
+      const wsClient = useClient();
+      const entry = liveEntry(wsClient, endpoint, params);
+      const getState = () => entry.state as LiveQueryState<Result<K>>;
+      const state = useSyncExternalStore(entry.listen, getState, getState);
+
+      if (opts.suspense) {
+        if (state.status === "pending") throw entry.ready;
+        if (state.status === "error" && state.data === undefined)
+          throw state.error;
+      }
+      return state;
+    },
+
+    // Mutations (imperative actions). Optimistic patches are reconciled by
+    // the server's next update of each query, or rolled back on error.
+    mutation<K extends MutationKeys<Endpoints>>(
+      endpoint: K,
+      opts: MutationOptions<Endpoints, K> = {}
+    ): UseMutationResult<
+      Result<K>,
+      EndpointError,
+      Params<K>,
+      OptimisticSnapshot
+    > {
       const queryClient = useQueryClient();
+      const wsClient = useClient();
 
-      return useMutation<EndpointResult<K>, unknown, EndpointParams<K>>({
-        mutationFn: async (params: EndpointParams<K>) => {
+      return useMutation<
+        Result<K>,
+        EndpointError,
+        Params<K>,
+        OptimisticSnapshot
+      >({
+        mutationFn: async (params: Params<K>) => {
           const res = await wsClient.call(endpoint as string, params);
           console.log(res);
           return res;
         },
-        onSuccess: (data, params) => {
-          // Optimistic cache update
-          queryClient.setQueryData([endpoint, params ?? {}], data);
+        // Outbox mutations are kept while offline, instead of paused
+        networkMode: wsClient.outbox ? "always" : "online",
+        onMutate: (params) =>
+          applyOptimistic(queryClient, prefix, opts.optimistic, params),
+        onError: (_error, _params, snapshot) => {
+          if (snapshot) rollbackOptimistic(queryClient, snapshot);
         },
       });
     },
+
+    // Client stores (session state written by the client), as `[value, set]`.
+    // `value` is `undefined` until the server sent it.
+    useClientStore<K extends ClientStoreKeys<Endpoints>>(
+      name: K
+    ): [Value<K> | undefined, (value: Value<K>) => Promise<Value<K>>] {
+      const wsClient = useClient();
+      const [value, setValue] = useState<Value<K>>();
+      const confirmed = useRef<Value<K>>(undefined);
+
+      useEffect(
+        () =>
+          wsClient.subscribe(name, undefined, (data) => {
+            confirmed.current = data;
+            setValue(data);
+          }),
+        [wsClient, name]
+      );
+
+      const set = useCallback(
+        (next: Value<K>) => {
+          setValue(next);
+          return wsClient.setClientStore(name, next).catch((error) => {
+            // Rejected by the store's schema: back to the server's value
+            setValue(confirmed.current);
+            throw error;
+          });
+        },
+        [wsClient, name]
+      );
+
+      return [value, set];
+    },
+
+    // Connection status of the client, e.g. to show an offline banner or mark
+    // live data as stale while reconnecting
+    useConnectionStatus(): ConnectionStatus {
+      const wsClient = useClient();
+      const listen = useCallback(
+        (onChange: () => void) => wsClient.onStatus(onChange),
+        [wsClient]
+      );
+      const getStatus = () => wsClient.status;
+      return useSyncExternalStore(listen, getStatus, getStatus);
+    },
+
+    // Mutations in the outbox, of one endpoint or all, to show pending and
+    // failed writes
+    useOutbox(endpoint?: MutationKeys<Endpoints>) {
+      const wsClient = useClient();
+      const listen = useCallback(
+        (onChange: () => void) => wsClient.onOutbox(onChange),
+        [wsClient]
+      );
+      const getEntries = () => wsClient.outboxEntries;
+      const all = useSyncExternalStore(listen, getEntries, getEntries);
+      const entries = useMemo(
+        () =>
+          endpoint ? all.filter((entry) => entry.endpoint === endpoint) : all,
+        [all, endpoint]
+      );
+
+      return {
+        entries,
+        retry: (id: string) => wsClient.retryOutbox(id),
+        discard: (id: string) => wsClient.discardOutbox(id),
+      };
+    },
   };
 }
@@ -0,0 +1,212 @@
+import {
+  createComponent,
+  createContext,
+  createResource,
+  createSignal,
+  getOwner,
+  onCleanup,
+  useContext,
+  type Accessor,
+  type JSX,
+  type Resource,
+} from "solid-js";
+import {
+  EndpointsWSClient,
+  EndpointError,
+  jsonCodec,
+} from "@reactivly/client-ws";
+import type {
+  ClientStoreKeys,
+  ClientStoreValue,
+  DehydratedState,
+  EndpointParams,
+  EndpointResult,
+  MutationKeys,
+  QueryKeys,
+  EndpointsWSClientOptions,
+} from "@reactivly/client-ws";
+
+export { EndpointError, EndpointsWSClient };
+export type {
+  ErrorCode,
+  ErrorIssue,
+  EndpointsWSClientOptions,
+  DehydratedState,
+} from "@reactivly/client-ws";
+
+export interface EndpointsOptions extends EndpointsWSClientOptions {
+  /** Server URL, e.g. `ws://localhost:3001` */
+  url?: string;
+  /**
+   * Client to use instead of one created for `url`. Without either,
+   * primitives use the client of the closest `ReactivlyProvider`.
+   */
+  client?: EndpointsWSClient;
+}
+
+const ClientContext = createContext<EndpointsWSClient | null>(null);
+
+/** Client used below it by `createEndpoints()` primitives without their own */
+export function ReactivlyProvider(props: {
+  client: EndpointsWSClient;
+  children?: JSX.Element;
+}) {
+  return createComponent(ClientContext.Provider, {
+    get value() {
+      return props.client;
+    },
+    get children() {
+      return props.children;
+    },
+  });
+}
+
+export interface MutationResult<TParams, TResult> {
+  mutate: (params: TParams) => Promise<TResult>;
+  data: Accessor<TResult | undefined>;
+  error: Accessor<EndpointError | undefined>;
+  pending: Accessor<boolean>;
+}
+
+/**
+ * Typed primitives for the endpoints of a server, with a client per call.
+ * Subscriptions end with the owner they were created in (component, root…).
+ */
+export function createEndpoints<Endpoints extends Record<string, any>>(
+  options: EndpointsOptions = {}
+) {
+  type Params<K extends keyof Endpoints> = EndpointParams<Endpoints[K]>;
+  type Result<K extends keyof Endpoints> = EndpointResult<Endpoints[K]>;
+  type Value<K extends keyof Endpoints> = ClientStoreValue<Endpoints[K]>;
+
+  const { url, client = null, ...clientOptions } = options;
+  const ownClient =
+    client ?? (url ? new EndpointsWSClient(url, clientOptions) : null);
+
+  function useClient() {
+    const wsClient = ownClient ?? useContext(ClientContext);
+    if (!wsClient)
+      throw new Error(
+        "createEndpoints needs a `url`, a `client` or a ReactivlyProvider"
+      );
+    return wsClient;
+  }
+
+  return {
+    /** Client of these primitives, `null` when taken from a ReactivlyProvider */
+    client: ownClient,
+
+    /**
+     * Start from the results of a server render (`ssr().dehydrate()`), before
+     * hydrating: queries resolve with their result right away
+     */
+    hydrate(
+      state: string | DehydratedState,
+      wsClient: EndpointsWSClient | null = ownClient
+    ) {
+      wsClient?.hydrate(
+        typeof state === "string"
+          ? (jsonCodec.decode(state) as DehydratedState)
+          : state
+      );
+    },
+
+    // Live query as a resource: it resolves with the first result, and
+    // follows the next ones. Params may be an accessor, subscribing again
+    // when they change.
+    query<K extends QueryKeys<Endpoints>>(
+      endpoint: K,
+      params?: Params<K> | Accessor<Params<K>>
+    ): Resource<Result<K>> {
+      const wsClient = useClient();
+      const source =
+        typeof params === "function"
+          ? (params as Accessor<Params<K>>)
+          : () => params;
+      let unsubscribe: (() => void) | undefined;
+
+      const [resource, { mutate, refetch }] = createResource(
+        // Wrapped: `undefined` params must fetch too
+        () => ({ params: source() }),
+        (key) =>
+          new Promise<Result<K>>((resolve, reject) => {
+            unsubscribe?.();
+            let settled = false;
+            unsubscribe = wsClient.subscribe(
+              endpoint,
+              key.params,
+              (data) => {
+                if (settled) return void mutate(() => data);
+                settled = true;
+                resolve(data);
+              },
+              (error) => {
+                if (!settled) return reject(error);
+                // Revoked after the first result: the new attempt surfaces
+                // the error on the resource
+                unsubscribe = undefined;
+                void refetch();
+              }
+            );
+          })
+      );
+      if (getOwner()) onCleanup(() => unsubscribe?.());
+      return resource;
+    },
+
+    mutation<K extends MutationKeys<Endpoints>>(
+      endpoint: K
+    ): MutationResult<Params<K>, Result<K>> {
+      const wsClient = useClient();
+      const [data, setData] = createSignal<Result<K>>();
+      const [error, setError] = createSignal<EndpointError>();
+      const [pending, setPending] = createSignal(false);
+
+      async function mutate(params: Params<K>): Promise<Result<K>> {
+        setPending(true);
+        setError(undefined);
+        try {
+          const result = await wsClient.call(endpoint, params);
+          setData(() => result);
+          return result;
+        } catch (err) {
+          setError(err as EndpointError);
+          throw err;
+        } finally {
+          setPending(false);
+        }
+      }
+
+      return { mutate, data, error, pending };
+    },
+
+    // Client stores (session state written by the client), as `[value, set]`.
+    // `value` is `undefined` until the server sent it.
+    clientStore<K extends ClientStoreKeys<Endpoints>>(
+      name: K
+    ): [
+      Accessor<Value<K> | undefined>,
+      (value: Value<K>) => Promise<Value<K>>,
+    ] {
+      const wsClient = useClient();
+      const [value, setValue] = createSignal<Value<K>>();
+      let confirmed: Value<K> | undefined;
+
+      const unsubscribe = wsClient.subscribe(name, undefined, (data) => {
+        confirmed = data;
+        setValue(() => data);
+      });
+      if (getOwner()) onCleanup(unsubscribe);
+
+      const set = (next: Value<K>) => {
+        setValue(() => next);
+        return wsClient.setClientStore(name, next).catch((error) => {
+          // Rejected by the store's schema: back to the server's value
+          setValue(() => confirmed);
+          throw error;
+        });
+      };
+      return [value, set];
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import { getContext, hasContext, setContext } from "svelte";
+import {
+  fromStore,
+  readable,
+  toStore,
+  writable,
+  type Readable,
+  type Writable,
+} from "svelte/store";
+import {
+  EndpointsWSClient,
+  EndpointError,
+  jsonCodec,
+} from "@reactivly/client-ws";
+import type {
+  ClientStoreKeys,
+  ClientStoreValue,
+  DehydratedState,
+  EndpointParams,
+  EndpointResult,
+  MutationKeys,
+  QueryKeys,
+  EndpointsWSClientOptions,
+} from "@reactivly/client-ws";
+
+export { EndpointError, EndpointsWSClient };
+export type {
+  ErrorCode,
+  ErrorIssue,
+  EndpointsWSClientOptions,
+  DehydratedState,
+} from "@reactivly/client-ws";
+
+export interface EndpointsOptions extends EndpointsWSClientOptions {
+  /** Server URL, e.g. `ws://localhost:3001` */
+  url?: string;
+  /**
+   * Client to use instead of one created for `url`. Without either, stores
+   * use the client set with `setReactivlyClient`.
+   */
+  client?: EndpointsWSClient;
+}
+
+const clientKey = Symbol("reactivly-client");
+
+/**
+ * Provides a client to the `createEndpoints()` stores of the component and
+ * its children without one of their own. Call it during component init.
+ */
+export function setReactivlyClient(client: EndpointsWSClient) {
+  setContext(clientKey, client);
+}
+
+/** Store value, also readable as `.current` from runes */
+export type RuneStore<T> = Readable<T> & { readonly current: T };
+
+export interface QueryState<T> {
+  /** Latest result, kept when the subscription is revoked */
+  data: T | undefined;
+  error: EndpointError | undefined;
+  status: "pending" | "success" | "error";
+  isLoading: boolean;
+}
+
+export interface MutationState<T> {
+  data: T | undefined;
+  error: EndpointError | undefined;
+  status: "idle" | "pending" | "success" | "error";
+  isPending: boolean;
+}
+
+/** Params given as is, as a store, or as a getter reading runes */
+export type ParamsInput<T> = T | Readable<T> | (() => T);
+
+function isReadable<T>(value: unknown): value is Readable<T> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Readable<T>).subscribe === "function"
+  );
+}
+
+function withCurrent<T>(store: Readable<T>): RuneStore<T> {
+  const rune = fromStore(store);
+  return Object.defineProperty(store, "current", {
+    get: () => rune.current,
+  }) as RuneStore<T>;
+}
+
+/**
+ * Typed stores for the endpoints of a server, with a client per call. Stores
+ * subscribe on the server while they have subscribers, so `$store` in a
+ * component unsubscribes on teardown.
+ */
+export function createEndpoints<Endpoints extends Record<string, any>>(
+  options: EndpointsOptions = {}
+) {
+  type Params<K extends keyof Endpoints> = EndpointParams<Endpoints[K]>;
+  type Result<K extends keyof Endpoints> = EndpointResult<Endpoints[K]>;
+  type Value<K extends keyof Endpoints> = ClientStoreValue<Endpoints[K]>;
+
+  const { url, client = null, ...clientOptions } = options;
+  const ownClient =
+    client ?? (url ? new EndpointsWSClient(url, clientOptions) : null);
+
+  function useClient() {
+    const wsClient =
+      ownClient ??
+      (hasContext(clientKey) ? getContext<EndpointsWSClient>(clientKey) : null);
+    if (!wsClient)
+      throw new Error(
+        "createEndpoints needs a `url`, a `client` or setReactivlyClient"
+      );
+    return wsClient;
+  }
+
+  return {
+    /** Client of these stores, `null` when taken from the component context */
+    client: ownClient,
+
+    /**
+     * Start from the results of a server render (`ssr().dehydrate()`), before
+     * hydrating: queries get their result right away
+     */
+    hydrate(
+      state: string | DehydratedState,
+      wsClient: EndpointsWSClient | null = ownClient
+    ) {
+      wsClient?.hydrate(
+        typeof state === "string"
+          ? (jsonCodec.decode(state) as DehydratedState)
+          : state
+      );
+    },
+
+    // Live query. New params move the subscription in place, keeping the
+    // result until the next one.
+    query<K extends QueryKeys<Endpoints>>(
+      endpoint: K,
+      params?: ParamsInput<Params<K> | undefined>
+    ): RuneStore<QueryState<Result<K>>> {
+      const wsClient = useClient();
+      const paramsStore = isReadable<Params<K> | undefined>(params)
+        ? params
+        : typeof params === "function"
+          ? toStore(params as () => Params<K> | undefined)
+          : readable(params);
+
+      const pending: QueryState<Result<K>> = {
+        data: undefined,
+        error: undefined,
+        status: "pending",
+        isLoading: true,
+      };
+      const store = readable(pending, (set, update) => {
+        let unsubscribe: ReturnType<EndpointsWSClient["subscribe"]> | undefined;
+        let revoked = false;
+        const stopParams = paramsStore.subscribe((next) => {
+          if (unsubscribe) {
+            // Other params also subscribe again after a revocation
+            if (revoked)
+              update((state) => ({
+                ...state,
+                status: "pending",
+                isLoading: true,
+              }));
+            revoked = false;
+            return unsubscribe.setParams(next);
+          }
+          unsubscribe = wsClient.subscribe(
+            endpoint,
+            next,
+            (data) =>
+              set({
+                data,
+                error: undefined,
+                status: "success",
+                isLoading: false,
+              }),
+            (error) => {
+              revoked = true;
+              update((state) => ({
+                ...state,
+                error,
+                status: "error",
+                isLoading: false,
+              }));
+            }
+          );
+        });
+        return () => {
+          stopParams();
+          unsubscribe?.();
+        };
+      });
+      return withCurrent(store);
+    },
+
+    mutation<K extends MutationKeys<Endpoints>>(endpoint: K) {
+      const wsClient = useClient();
+      const state = writable<MutationState<Result<K>>>({
+        data: undefined,
+        error: undefined,
+        status: "idle",
+        isPending: false,
+      });
+
+      async function mutate(params: Params<K>): Promise<Result<K>> {
+        state.update((s) => ({ ...s, status: "pending", isPending: true }));
+        try {
+          const data = await wsClient.call(endpoint, params);
+          state.set({
+            data,
+            error: undefined,
+            status: "success",
+            isPending: false,
+          });
+          return data;
+        } catch (error) {
+          state.set({
+            data: undefined,
+            error: error as EndpointError,
+            status: "error",
+            isPending: false,
+          });
+          throw error;
+        }
+      }
+
+      const store = withCurrent({ subscribe: state.subscribe });
+      return Object.assign(store, { mutate });
+    },
+
+    // Client stores (session state written by the client), as writable
+    // stores. The value is `undefined` until the server sent it.
+    clientStore<K extends ClientStoreKeys<Endpoints>>(
+      name: K
+    ): Writable<Value<K> | undefined> {
+      const wsClient = useClient();
+      let confirmed: Value<K> | undefined;
+      // Last value confirmed by the server or written, for `update` to read
+      // without subscribing
+      let current: Value<K> | undefined;
+      const value = writable<Value<K> | undefined>(undefined, (set) =>
+        wsClient.subscribe(name, undefined, (data) => {
+          confirmed = current = data;
+          set(data);
+        })
+      );
+
+      const set = (next: Value<K> | undefined) => {
+        current = next;
+        value.set(next);
+        wsClient.setClientStore(name, next).catch((error) => {
+          // Rejected by the store's schema: back to the server's value
+          current = confirmed;
+          value.set(confirmed);
+          console.error(error);
+        });
+      };
+      return {
+        subscribe: value.subscribe,
+        set,
+        update: (fn) => set(fn(current)),
+      };
+    },
+  };
+}
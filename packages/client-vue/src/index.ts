@@ -1,64 +1,301 @@
-import { wsClient } from "@reactivly/client-ws";
-import type { LiveQueryResult } from "@reactivly/core";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/vue-query";
-
-wsClient.init("ws://localhost:3001");
-console.log("WS Client initialized");
-
-export function createEndpoints<Endpoints extends Record<string, any>>() {
-  type QueryKeys = {
-    [K in keyof Endpoints]: ReturnType<
-      Endpoints[K]
-    > extends LiveQueryResult<any>
-      ? K
-      : never;
-  }[keyof Endpoints];
-
-  type MutationKeys = {
-    [K in keyof Endpoints]: ReturnType<Endpoints[K]> extends Promise<any>
-      ? K
-      : never;
-  }[keyof Endpoints];
-
-  type EndpointParams<K extends keyof Endpoints> = Parameters<Endpoints[K]>[0];
-
-  type EndpointResult<K extends keyof Endpoints> =
-    ReturnType<Endpoints[K]> extends LiveQueryResult<infer R>
-      ? R
-      : ReturnType<Endpoints[K]> extends Promise<infer R>
-        ? R
-        : never;
+import {
+  computed,
+  getCurrentScope,
+  inject,
+  onScopeDispose,
+  shallowRef,
+  toValue,
+  watch,
+  type App,
+  type ComputedRef,
+  type InjectionKey,
+  type MaybeRefOrGetter,
+  type ShallowRef,
+  type WritableComputedRef,
+} from "vue";
+import { EndpointsWSClient, EndpointError } from "@reactivly/client-ws";
+import {
+  applyOptimistic,
+  hydrateQueries,
+  liveQueryFn,
+  rollbackOptimistic,
+  type OptimisticSnapshot,
+} from "@reactivly/client-ws/tanstack";
+import type {
+  ClientStoreKeys,
+  ClientStoreValue,
+  ConnectionStatus,
+  DehydratedState,
+  OutboxEntry,
+  EndpointParams,
+  EndpointResult,
+  MutationKeys,
+  OptimisticUpdates,
+  QueryKeys,
+  EndpointsWSClientOptions,
+} from "@reactivly/client-ws";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/vue-query";
+
+export { EndpointError, EndpointsWSClient };
+export {
+  memoryOutbox,
+  localStorageOutbox,
+  indexedDbOutbox,
+} from "@reactivly/client-ws";
+export type {
+  ErrorCode,
+  ErrorIssue,
+  OptimisticUpdates,
+  EndpointsWSClientOptions,
+  DehydratedState,
+  ConnectionState,
+  ConnectionStatus,
+  OutboxEntry,
+  OutboxStorage,
+} from "@reactivly/client-ws";
+
+export interface EndpointsOptions extends EndpointsWSClientOptions {
+  /** Server URL, e.g. `ws://localhost:3001` */
+  url?: string;
+  /**
+   * Client to use instead of one created for `url`. Without either,
+   * composables use the client installed with `ReactivlyPlugin`.
+   */
+  client?: EndpointsWSClient;
+  /**
+   * First element of the query keys, to tell apart backends sharing a
+   * QueryClient
+   */
+  name?: string;
+}
+
+const clientKey: InjectionKey<EndpointsWSClient> = Symbol("reactivly-client");
+
+/**
+ * Provides a client to the `createEndpoints()` composables without one of
+ * their own: `app.use(ReactivlyPlugin, { client })`
+ */
+export const ReactivlyPlugin = {
+  install(app: App, options: { client: EndpointsWSClient }) {
+    app.provide(clientKey, options.client);
+  },
+};
+
+export interface MutationOptions<
+  Endpoints extends Record<string, any>,
+  K extends keyof Endpoints,
+> {
+  /** Cached query results to patch until the server answers */
+  optimistic?: OptimisticUpdates<Endpoints, K>;
+}
+
+/** Result of `useLiveQuery` */
+export interface LiveQueryRefs<T> {
+  /** Latest result, kept when the subscription is revoked */
+  data: ShallowRef<T | undefined>;
+  error: ShallowRef<EndpointError | undefined>;
+  status: ShallowRef<"pending" | "success" | "error">;
+  isLoading: ComputedRef<boolean>;
+}
+
+/** Typed composables for the endpoints of a server, with a client per call */
+export function createEndpoints<Endpoints extends Record<string, any>>(
+  options: EndpointsOptions = {}
+) {
+  type Params<K extends keyof Endpoints> = EndpointParams<Endpoints[K]>;
+  type Result<K extends keyof Endpoints> = EndpointResult<Endpoints[K]>;
+  type Value<K extends keyof Endpoints> = ClientStoreValue<Endpoints[K]>;
+
+  const { url, client = null, name: keyName, ...clientOptions } = options;
+  const ownClient =
+    client ?? (url ? new EndpointsWSClient(url, clientOptions) : null);
+  const prefix = keyName === undefined ? [] : [keyName];
+
+  function useClient() {
+    const wsClient = ownClient ?? inject(clientKey, null);
+    if (!wsClient)
+      throw new Error(
+        "createEndpoints needs a `url`, a `client` or ReactivlyPlugin"
+      );
+    return wsClient;
+  }
 
   return {
-    query<K extends QueryKeys>(endpoint: K, params?: EndpointParams<K>) {
+    /** Client of these composables, `null` when taken from ReactivlyPlugin */
+    client: ownClient,
+
+    /**
+     * Seed `queryClient` with the results of a server render
+     * (`ssr().dehydrate()`), before rendering on the server and before
+     * hydrating in the browser. Mounted queries then subscribe without
+     * waiting for, nor receiving, their first result again.
+     */
+    hydrate(
+      queryClient: QueryClient,
+      state: string | DehydratedState,
+      wsClient: EndpointsWSClient | null = ownClient
+    ) {
+      hydrateQueries(queryClient, prefix, state, wsClient);
+    },
+
+    query<K extends QueryKeys<Endpoints>>(endpoint: K, params?: Params<K>) {
       const queryClient = useQueryClient();
+      const wsClient = useClient();
+      const queryKey = [...prefix, endpoint, params ?? {}];
 
-      return useQuery({
-        queryKey: [endpoint, params ?? {}],
+      return useQuery<Result<K>, EndpointError>({
+        queryKey,
         queryFn: () =>
-          new Promise<EndpointResult<K>>((resolve) => {
-            wsClient.subscribe(endpoint as string, params, (data) => {
-              resolve(data);
-              queryClient.setQueryData([endpoint, params ?? {}], data);
-            });
-          }),
+          liveQueryFn<Result<K>>(
+            queryClient,
+            wsClient,
+            queryKey,
+            endpoint,
+            params
+          ),
         staleTime: Infinity,
+        retry: false,
         refetchOnWindowFocus: false,
         refetchOnReconnect: false,
-        refetchOnMount: false,
+        // Hydrated or unobserved results, which are not subscribed to
+        refetchOnMount: (query) => query.state.isInvalidated,
       });
     },
 
-    mutation<K extends MutationKeys>(endpoint: K) {
+    // Live query without TanStack Query. Reactive params move the
+    // subscription in place, keeping the result until the next one.
+    useLiveQuery<K extends QueryKeys<Endpoints>>(
+      endpoint: K,
+      params?: MaybeRefOrGetter<Params<K> | undefined>
+    ): LiveQueryRefs<Result<K>> {
+      const wsClient = useClient();
+      const data = shallowRef<Result<K>>();
+      const error = shallowRef<EndpointError>();
+      const status = shallowRef<"pending" | "success" | "error">("pending");
+
+      const unsubscribe = wsClient.subscribe(
+        endpoint,
+        toValue(params),
+        (next) => {
+          data.value = next;
+          error.value = undefined;
+          status.value = "success";
+        },
+        (err) => {
+          error.value = err;
+          status.value = "error";
+        }
+      );
+      // Other params also subscribe again after a revocation
+      const stop = watch(
+        () => toValue(params),
+        (next) => {
+          if (status.value === "error") status.value = "pending";
+          unsubscribe.setParams(next);
+        },
+        { deep: true }
+      );
+      if (getCurrentScope())
+        onScopeDispose(() => {
+          stop();
+          unsubscribe();
+        });
+
+      return {
+        data,
+        error,
+        status,
+        isLoading: computed(() => status.value === "pending"),
+      };
+    },
+
+    // Optimistic patches are reconciled by the server's next update of each
+    // query, or rolled back on error
+    mutation<K extends MutationKeys<Endpoints>>(
+      endpoint: K,
+      opts: MutationOptions<Endpoints, K> = {}
+    ) {
       const queryClient = useQueryClient();
+      const wsClient = useClient();
 
-      return useMutation({
-        mutationFn: (params: EndpointParams<K>) =>
+      return useMutation<
+        Result<K>,
+        EndpointError,
+        Params<K>,
+        OptimisticSnapshot
+      >({
+        mutationFn: (params: Params<K>) =>
           wsClient.call(endpoint as string, params),
-        onSuccess: (data, params) => {
-          queryClient.setQueryData([endpoint, params ?? {}], data);
+        // Outbox mutations are kept while offline, instead of paused
+        networkMode: wsClient.outbox ? "always" : "online",
+        onMutate: (params) =>
+          applyOptimistic(queryClient, prefix, opts.optimistic, params),
+        onError: (_error, _params, snapshot) => {
+          if (snapshot) rollbackOptimistic(queryClient, snapshot);
+        },
+      });
+    },
+
+    // Client stores (session state written by the client), as a writable ref
+    // that is `undefined` until the server sent the value
+    useClientStore<K extends ClientStoreKeys<Endpoints>>(
+      name: K
+    ): WritableComputedRef<Value<K> | undefined, Value<K>> {
+      const wsClient = useClient();
+      const value = shallowRef<Value<K>>();
+      let confirmed: Value<K> | undefined;
+
+      const unsubscribe = wsClient.subscribe(name, undefined, (data) => {
+        confirmed = data;
+        value.value = data;
+      });
+      if (getCurrentScope()) onScopeDispose(unsubscribe);
+
+      return computed({
+        get: () => value.value,
+        set: (next: Value<K>) => {
+          value.value = next;
+          wsClient.setClientStore(name, next).catch((error) => {
+            // Rejected by the store's schema: back to the server's value
+            value.value = confirmed;
+            console.error(error);
+          });
         },
       });
     },
+
+    // Connection status of the client, e.g. to show an offline banner or mark
+    // live data as stale while reconnecting
+    useConnectionStatus(): Readonly<ShallowRef<ConnectionStatus>> {
+      const wsClient = useClient();
+      const status = shallowRef(wsClient.status);
+      const stop = wsClient.onStatus((next) => (status.value = next));
+      if (getCurrentScope()) onScopeDispose(stop);
+      return status;
+    },
+
+    // Mutations in the outbox, of one endpoint or all, to show pending and
+    // failed writes
+    useOutbox(endpoint?: MutationKeys<Endpoints>) {
+      const wsClient = useClient();
+      const all = shallowRef(wsClient.outboxEntries);
+      const stop = wsClient.onOutbox((next) => (all.value = next));
+      if (getCurrentScope()) onScopeDispose(stop);
+
+      return {
+        entries: computed<OutboxEntry[]>(() =>
+          endpoint
+            ? all.value.filter((entry) => entry.endpoint === endpoint)
+            : all.value
+        ),
+        retry: (id: string) => wsClient.retryOutbox(id),
+        discard: (id: string) => wsClient.discardOutbox(id),
+      };
+    },
   };
 }
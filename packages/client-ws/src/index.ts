@@ -1,86 +1,864 @@
+import type {
+  DehydratedState,
+  ErrorCode,
+  ErrorIssue,
+  ErrorMessage,
+} from "@reactivly/core";
+import {
+  IDLE_CLOSE_CODE,
+  applyPatch,
+  codecFor,
+  digest,
+  jsonCodec,
+} from "@reactivly/core";
+import type { Codec } from "@reactivly/core";
+import type { OutboxEntry, OutboxStorage } from "./outbox.js";
+
+export { jsonCodec, msgpackCodec, type Codec } from "@reactivly/core";
+export * from "./outbox.js";
+
+export type { ErrorCode, ErrorIssue };
+export type {
+  EndpointParams,
+  EndpointResult,
+  QueryKeys,
+  MutationKeys,
+  ClientStoreKeys,
+  ClientStoreValue,
+  OptimisticUpdates,
+  DehydratedState,
+} from "@reactivly/core";
+
+/** Failure reported by the server (or a client-side timeout) */
+export class EndpointError extends Error {
+  code: ErrorCode;
+  endpoint: string;
+  issues?: ErrorIssue[];
+
+  constructor(
+    endpoint: string,
+    code: ErrorCode,
+    message: string,
+    issues?: ErrorIssue[]
+  ) {
+    super(message);
+    this.name = "EndpointError";
+    this.endpoint = endpoint;
+    this.code = code;
+    if (issues) this.issues = issues;
+  }
+
+  static fromMessage(endpoint: string, msg: ErrorMessage) {
+    return new EndpointError(endpoint, msg.code, msg.message, msg.issues);
+  }
+}
+
+export interface ReconnectOptions {
+  /** Delay before the first reconnect attempt (ms) */
+  minDelay?: number;
+  /** Upper bound for the backoff delay (ms) */
+  maxDelay?: number;
+  /** Backoff multiplier applied after each failed attempt */
+  factor?: number;
+  /** Random spread applied to each delay, between 0 and 1 */
+  jitter?: number;
+}
+
+/** Where the session token is kept between reconnects and page loads */
+export type SessionTokenStorage = Pick<
+  Storage,
+  "getItem" | "setItem" | "removeItem"
+>;
+
+export interface EndpointsWSClientOptions {
+  /** Reconnect settings, or `false` to never reconnect */
+  reconnect?: ReconnectOptions | false;
+  /** Storage for the session token, `false` to keep it in memory only */
+  sessionStorage?: SessionTokenStorage | false;
+  /** Storage key of the session token */
+  sessionKey?: string;
+  /** Codecs offered to the server, by preference (default: JSON only) */
+  codecs?: Codec[];
+  /** Extra WebSocket subprotocols, offered after the codecs' */
+  protocols?: string[];
+  /**
+   * Auth token, read before every (re)connect and sent as the `tokenParam`
+   * query parameter, for the server's `authenticate` to check
+   */
+  token?: () => string | null | undefined | Promise<string | null | undefined>;
+  /** Query parameter the token is sent in (default `token`) */
+  tokenParam?: string;
+  /**
+   * Reconnect when nothing (not even a server ping) was received for this
+   * long (ms), `false` to disable. Keep it above the server heartbeat.
+   */
+  heartbeatTimeout?: number | false;
+  /**
+   * Durable outbox for mutations: `call` persists them, and they are sent in
+   * order whenever the connection is open, without timing out. Replays are
+   * run once by the server, deduplicated by idempotency key.
+   */
+  outbox?: OutboxStorage;
+}
+
+export type ConnectionState =
+  /** Not connected, with nothing to send (until first used, or idle) */
+  | "idle"
+  | "connecting"
+  | "open"
+  /** Lost, waiting for or attempting the next reconnect */
+  | "reconnecting"
+  /** Closed for good, by `close()` or with reconnects disabled */
+  | "closed";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Why the connection last failed, cleared once open */
+  lastError: Error | null;
+  /** Round trip of the last ping (ms), `null` until measured */
+  latency: number | null;
+  /** Reconnect attempts since the connection was last open */
+  attempts: number;
+}
+
+interface PendingCall {
+  endpoint: string;
+  settle: (data: any, error?: EndpointError) => void;
+}
+
+interface ClientSubscription {
+  endpoint: string;
+  params: any;
+  callbacks: Set<(data: any) => void>;
+  errorCallbacks: Set<(error: EndpointError) => void>;
+  /** Latest value, the base server patches apply to */
+  data?: any;
+  hasData: boolean;
+}
+
+const defaultReconnect: Required<ReconnectOptions> = {
+  minDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 0.5,
+};
+
 export class EndpointsWSClient {
   ws: WebSocket | null = null;
-  subscriptions = new Map<string, Set<(data: any) => void>>();
-  pendingCalls = new Map<string, (data: any, error?: string) => void>();
+  url: string | null = null;
+  subscriptions = new Map<string, ClientSubscription>();
+  pendingCalls = new Map<string, PendingCall>();
+  /** Current connection status, see `onStatus` */
+  status: ConnectionStatus = {
+    state: "idle",
+    lastError: null,
+    latency: null,
+    attempts: 0,
+  };
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  /** Messages waiting for the socket to (re)open */
+  queue: object[] = [];
+  /** subId → subId it was moved to by `setParams`, until the server follows */
+  private movedSubIds = new Map<string, string>();
+  /** Client store values written, restored when the session is not resumed */
+  private clientStores = new Map<string, unknown>();
+  /** Results of a server render by subId, until subscribed to */
+  private hydrated = new Map<string, unknown>();
+
+  private reconnect: Required<ReconnectOptions> | false = defaultReconnect;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private sessionToken: string | null = null;
+  private sessionStorage: SessionTokenStorage | null = null;
+  private sessionKey = "reactivly:session";
+  private codecs: Codec[] = [jsonCodec];
+  private protocols: string[] = [];
+  private token: EndpointsWSClientOptions["token"] | null = null;
+  private tokenParam = "token";
+  /** Codec negotiated with the server for the current socket */
+  private codec: Codec = jsonCodec;
+  private heartbeatTimeout: number | false = 70000;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Not connected yet, or closed by the server for idling: opened on demand */
+  private idle = false;
+  /** Storage of the outbox, `null` when mutations are not kept */
+  outbox: OutboxStorage | null = null;
+  /** Mutations in the outbox, oldest first */
+  outboxEntries: OutboxEntry[] = [];
+  private outboxLoaded = false;
+  private readonly clientId = crypto.randomUUID();
+  private outboxCalls = new Map<string, PendingCall>();
+  private outboxListeners = new Set<(entries: OutboxEntry[]) => void>();
+
+  /** Set up right away when given a `url`, see `init` */
+  constructor(url?: string, opts?: EndpointsWSClientOptions) {
+    if (url) this.init(url, opts);
+  }
+
+  init(url: string, opts: EndpointsWSClientOptions = {}) {
+    // Already connected, or connecting once the token is read
+    if (this.ws || (this.url && !this.closed)) return;
+
+    this.url = url;
+    this.closed = false;
+    this.reconnect =
+      opts.reconnect === false
+        ? false
+        : { ...defaultReconnect, ...opts.reconnect };
+    this.sessionKey = opts.sessionKey ?? this.sessionKey;
+    this.sessionStorage =
+      opts.sessionStorage === false
+        ? null
+        : (opts.sessionStorage ?? globalThis.sessionStorage ?? null);
+    // A token hydrated before `init` wins over the stored one
+    this.sessionToken =
+      this.sessionToken ??
+      this.sessionStorage?.getItem(this.sessionKey) ??
+      null;
+    this.codecs = opts.codecs ?? this.codecs;
+    this.protocols = opts.protocols ?? this.protocols;
+    this.token = opts.token ?? null;
+    this.tokenParam = opts.tokenParam ?? this.tokenParam;
+    this.heartbeatTimeout = opts.heartbeatTimeout ?? this.heartbeatTimeout;
+    if (opts.outbox) this.loadOutbox(opts.outbox);
+    // Connects once needed, on the first subscription or call: clients
+    // created at import time don't open sockets from server renders
+    this.idle = true;
+  }
+
+  /** Close the socket for good, without reconnecting */
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.clearStaleTimer();
+    this.ws?.close();
+    this.ws = null;
+    this.failCalls(true);
+    // Kept in the outbox for the next client, but not awaited anymore
+    for (const [id, { endpoint, settle }] of this.outboxCalls) {
+      this.outboxCalls.delete(id);
+      settle(
+        undefined,
+        new EndpointError(
+          endpoint,
+          "disconnected",
+          `Closed calling ${endpoint}`
+        )
+      );
+    }
+    this.setStatus({ state: "closed" });
+  }
+
+  /**
+   * Follow the connection status, e.g. to show an offline banner. Returns a
+   * function to stop listening.
+   */
+  onStatus(listener: (status: ConnectionStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => void this.statusListeners.delete(listener);
+  }
 
-  init(url: string) {
-    if (this.ws) return;
+  private setStatus(patch: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
 
-    this.ws = new WebSocket(url);
+  /**
+   * Reject calls whose answer can't arrive anymore: the ones sent on a lost
+   * socket, and the queued ones too when closing for good
+   */
+  private failCalls(queued: boolean) {
+    const unsent = new Set(
+      this.queue.map(msg => (msg as { requestId?: string }).requestId)
+    );
+    for (const [requestId, { endpoint, settle }] of this.pendingCalls) {
+      if (!queued && unsent.has(requestId)) continue;
+      this.pendingCalls.delete(requestId);
+      settle(
+        undefined,
+        new EndpointError(
+          endpoint,
+          "disconnected",
+          `Connection lost calling ${endpoint}`
+        )
+      );
+    }
+    if (queued) this.queue = [];
+  }
+
+  /** The socket is gone: fail what it carried, then reconnect */
+  private lost(error: Error) {
+    this.failCalls(false);
+    this.scheduleReconnect(error);
+  }
+
+  private connect() {
+    this.setStatus({
+      state: this.status.attempts > 0 ? "reconnecting" : "connecting",
+    });
+    const token = this.token;
+    if (!token) return this.open(this.url!);
+    Promise.resolve()
+      .then(token)
+      .then(
+        value => {
+          if (this.closed) return;
+          const url = new URL(this.url!, globalThis.location?.href);
+          if (value) url.searchParams.set(this.tokenParam, value);
+          this.open(url.toString());
+        },
+        err => {
+          console.error(err);
+          this.scheduleReconnect(
+            err instanceof Error ? err : new Error(String(err))
+          );
+        }
+      );
+  }
 
-    this.ws.onmessage = ev => {
-      const msg = JSON.parse(ev.data.toString());
+  private open(url: string) {
+    const ws = new WebSocket(url, [
+      ...this.codecs.map(c => c.name),
+      ...this.protocols,
+    ]);
+    ws.binaryType = "arraybuffer";
+    this.ws = ws;
+    this.idle = false;
 
-      if (msg.type === "update") {
-        const key = msg.name + (msg.params ? JSON.stringify(msg.params) : "");
-        this.subscriptions.get(key)?.forEach(cb => cb(msg.data));
+    ws.onopen = () => {
+      this.attempts = 0;
+      this.setStatus({ state: "open", lastError: null, attempts: 0 });
+      this.movedSubIds.clear();
+      this.resetStaleTimer();
+      this.codec = codecFor(ws.protocol, this.codecs);
+
+      // Resume the previous session before anything else is sent
+      if (this.sessionToken)
+        this.sendNow({ type: "resume", token: this.sessionToken });
+
+      // Rewrite client stores, in case the session expired in the meantime
+      for (const [name, value] of this.clientStores) {
+        this.sendNow({ type: "clientStoreSet", name, value });
+      }
+
+      // Replay every live subscription, then flush queued calls
+      for (const [subId, sub] of this.subscriptions) {
+        this.sendNow(this.subscribeMessage(subId, sub));
+      }
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(msg => this.sendNow(msg));
+      // Unacknowledged on the previous socket: send again, the server
+      // answers a replay without running it twice
+      if (this.outbox) {
+        this.setOutbox(
+          this.outboxEntries.map(entry =>
+            entry.status === "sending" ? { ...entry, status: "queued" } : entry
+          )
+        );
+        this.flushOutbox();
+      }
+      // Measure the latency right away, then on every server ping
+      this.ping();
+    };
+
+    ws.onclose = ev => {
+      if (this.ws !== ws) return;
+      this.clearStaleTimer();
+      // Nothing to keep alive: reconnect once something is sent again
+      if (
+        ev.code === IDLE_CLOSE_CODE &&
+        this.subscriptions.size === 0 &&
+        this.queue.length === 0 &&
+        !this.outboxEntries.some(entry => entry.status !== "failed")
+      ) {
+        this.idle = true;
+        this.failCalls(false);
+        this.setStatus({ state: "idle" });
+        return;
+      }
+      this.lost(
+        new Error(
+          `Connection closed (${ev.code}${ev.reason ? `: ${ev.reason}` : ""})`
+        )
+      );
+    };
+
+    ws.onmessage = ev => {
+      this.resetStaleTimer();
+      const msg = this.codec.decode(ev.data);
+
+      if (msg.type === "ping") this.ping();
+      if (msg.type === "pong" && typeof msg.t === "number") {
+        this.setStatus({ latency: Date.now() - msg.t });
+      }
+
+      if (msg.type === "session") {
+        this.sessionToken = msg.token;
+        this.sessionStorage?.setItem(this.sessionKey, msg.token);
+      }
+
+      if (msg.type === "update" || msg.type === "patch") {
+        // Frames sent before the server moved the subscription: the server
+        // diffs against them, so apply them without notifying
+        const movedTo = this.movedSubIds.get(msg.subId);
+        const moved = movedTo && this.subscriptions.get(movedTo);
+        if (moved && (msg.type === "update" || moved.hasData)) {
+          moved.data =
+            msg.type === "patch" ? applyPatch(moved.data, msg.ops) : msg.data;
+          moved.hasData = true;
+        }
+        this.movedSubIds.forEach((to, from) => {
+          if (to === msg.subId) this.movedSubIds.delete(from);
+        });
+
+        // Patches in flight for an earlier subscription to the same subId
+        // have no base: the new one always starts with a full update
+        const sub = this.subscriptions.get(msg.subId);
+        if (sub && (msg.type === "update" || sub.hasData)) {
+          sub.data =
+            msg.type === "patch" ? applyPatch(sub.data, msg.ops) : msg.data;
+          sub.hasData = true;
+          sub.callbacks.forEach(cb => cb(sub.data));
+        }
+      }
+
+      if (
+        (msg.type === "mutationResult" || msg.type === "error") &&
+        msg.requestId
+      ) {
+        this.settleOutbox(msg);
       }
 
       if (msg.type === "mutationResult" && msg.requestId) {
-        const resolve = this.pendingCalls.get(msg.requestId);
-        if (resolve) {
-          resolve(msg.data);
+        const call = this.pendingCalls.get(msg.requestId);
+        if (call) {
+          call.settle(msg.data);
           this.pendingCalls.delete(msg.requestId);
         }
       }
 
       if (msg.type === "error" && msg.requestId) {
-        const resolve = this.pendingCalls.get(msg.requestId);
-        if (resolve) {
-          resolve(undefined, msg.error);
+        const call = this.pendingCalls.get(msg.requestId);
+        if (call) {
+          call.settle(undefined, EndpointError.fromMessage(msg.name, msg));
           this.pendingCalls.delete(msg.requestId);
         }
       }
+
+      // The server revoked the subscription
+      if (msg.type === "error" && msg.subId) {
+        const sub = this.subscriptions.get(msg.subId);
+        if (sub) {
+          this.subscriptions.delete(msg.subId);
+          const error = EndpointError.fromMessage(sub.endpoint, msg);
+          sub.errorCallbacks.forEach(cb => cb(error));
+        }
+      }
     };
   }
 
-  subscribe(endpoint: string, params: any, cb: (data: any) => void) {
-    const key = endpoint + (params ? JSON.stringify(params) : "");
-    let set = this.subscriptions.get(key);
-    if (!set) {
-      set = new Set();
-      this.subscriptions.set(key, set);
+  private resetStaleTimer() {
+    this.clearStaleTimer();
+    if (this.heartbeatTimeout === false) return;
+    const ws = this.ws!;
+    this.staleTimer = setTimeout(() => {
+      // A half-open socket may take minutes to fire `close`: don't wait for it
+      ws.onclose = null;
+      ws.onmessage = null;
+      ws.close();
+      this.staleTimer = null;
+      this.lost(new Error("Heartbeat timeout"));
+    }, this.heartbeatTimeout);
+  }
+
+  /** Latency probe, the server echoes `t` in a `pong` */
+  private ping() {
+    this.sendNow({ type: "ping", t: Date.now() });
+  }
+
+  private clearStaleTimer() {
+    if (this.staleTimer) clearTimeout(this.staleTimer);
+    this.staleTimer = null;
+  }
 
-      const msg = JSON.stringify({ type: "subscribe", name: endpoint, params });
-      if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(msg);
-      else
-        this.ws?.addEventListener("open", () => {
-          this.ws!.send(msg);
-        }, { once: true });
+  /** Reopen a connection the server closed for idling */
+  private wake() {
+    if (this.idle && !this.closed) this.connect();
+  }
+
+  private scheduleReconnect(lastError = this.status.lastError) {
+    if (this.closed) return;
+    if (!this.reconnect) return this.setStatus({ state: "closed", lastError });
+    const { minDelay, maxDelay, factor, jitter } = this.reconnect;
+    const base = Math.min(maxDelay, minDelay * factor ** this.attempts);
+    const delay = base * (1 - jitter + Math.random() * jitter * 2);
+    this.attempts++;
+    this.setStatus({
+      state: "reconnecting",
+      lastError,
+      attempts: this.attempts,
+    });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /** Send if the socket is open, dropping the message otherwise */
+  private sendNow(msg: object) {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(this.codec.encode(msg));
+    return true;
+  }
+
+  /** Send now if the socket is open, otherwise once it (re)opens */
+  private send(msg: object) {
+    if (this.sendNow(msg)) return;
+    this.queue.push(msg);
+    this.wake();
+  }
+
+  private subIdFor(endpoint: string, params: any) {
+    return endpoint + (params ? jsonCodec.encode(params) : "");
+  }
+
+  /** The server skips the first frame when it matches the data we have */
+  private subscribeMessage(subId: string, sub: ClientSubscription) {
+    return {
+      type: "subscribe",
+      name: sub.endpoint,
+      params: sub.params,
+      subId,
+      ...(sub.hasData && { digest: digest(sub.data) }),
+    };
+  }
+
+  /**
+   * Start from the results of a server render (`ssr().dehydrate()`): the
+   * socket resumes the render's session, and subscriptions to these queries
+   * get their result right away instead of waiting for the server's.
+   */
+  hydrate(state: string | DehydratedState) {
+    // On a server, one client would keep the results of every request
+    if (typeof window === "undefined") return;
+    const { session, queries } =
+      typeof state === "string"
+        ? (jsonCodec.decode(state) as DehydratedState)
+        : state;
+    for (const { endpoint, params, data } of queries) {
+      this.hydrated.set(this.subIdFor(endpoint, params), data);
+    }
+    // Too late once the socket opened: it already has a session
+    if (session && this.ws?.readyState !== WebSocket.OPEN) {
+      this.sessionToken = session;
+      this.sessionStorage?.setItem(this.sessionKey, session);
+    }
+  }
+
+  /** Register a listener, subscribing on the server for the first one */
+  private attach(
+    endpoint: string,
+    params: any,
+    cb: (data: any) => void,
+    onError?: (error: EndpointError) => void
+  ) {
+    const subId = this.subIdFor(endpoint, params);
+    let sub = this.subscriptions.get(subId);
+    if (!sub) {
+      sub = {
+        endpoint,
+        params,
+        callbacks: new Set(),
+        errorCallbacks: new Set(),
+        hasData: this.hydrated.has(subId),
+        data: this.hydrated.get(subId),
+      };
+      this.hydrated.delete(subId);
+      this.subscriptions.set(subId, sub);
+
+      // When closed, the subscription is replayed by `onopen`
+      this.sendNow(this.subscribeMessage(subId, sub));
+      this.wake();
+    }
+
+    sub.callbacks.add(cb);
+    if (onError) sub.errorCallbacks.add(onError);
+    if (sub.hasData) cb(sub.data);
+    return subId;
+  }
+
+  /** Remove a listener, unsubscribing on the server after the last one */
+  private detach(
+    subId: string,
+    cb: (data: any) => void,
+    onError?: (error: EndpointError) => void
+  ) {
+    const sub = this.subscriptions.get(subId);
+    if (!sub) return;
+    sub.callbacks.delete(cb);
+    if (onError) sub.errorCallbacks.delete(onError);
+    if (sub.callbacks.size === 0) {
+      this.subscriptions.delete(subId);
+      this.sendNow({
+        type: "unsubscribe",
+        name: sub.endpoint,
+        params: sub.params,
+        subId,
+      });
     }
+  }
+
+  /**
+   * Follow a live query. Returns an unsubscribe function, whose `setParams`
+   * moves the subscription to other params without tearing it down.
+   */
+  subscribe(
+    endpoint: string,
+    params: any,
+    cb: (data: any) => void,
+    onError?: (error: EndpointError) => void
+  ) {
+    let subId = this.attach(endpoint, params, cb, onError);
 
-    set.add(cb);
+    const unsubscribe = () => this.detach(subId, cb, onError);
 
-    return () => {
-      set!.delete(cb);
-      if (set!.size === 0) {
-        const msg = JSON.stringify({ type: "unsubscribe", name: endpoint, params });
-        if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(msg);
+    const setParams = (next: any) => {
+      const nextSubId = this.subIdFor(endpoint, next);
+      if (nextSubId === subId) return;
+      const sub = this.subscriptions.get(subId);
+
+      // Shared with other listeners, or the target already exists: re-attach
+      if (!sub || sub.callbacks.size > 1 || this.subscriptions.has(nextSubId)) {
+        this.detach(subId, cb, onError);
+        subId = this.attach(endpoint, next, cb, onError);
+        return;
       }
+
+      // Keep the data, the server's next frame is a delta against it
+      this.subscriptions.delete(subId);
+      sub.params = next;
+      this.subscriptions.set(nextSubId, sub);
+      const sent = this.sendNow({
+        type: "setParams",
+        name: endpoint,
+        params: next,
+        subId,
+        nextSubId,
+      });
+      if (sent) this.movedSubIds.set(subId, nextSubId);
+      subId = nextSubId;
     };
+
+    return Object.assign(unsubscribe, { setParams });
   }
 
   call(endpoint: string, params: any): Promise<any> {
-    if (!this.ws) return Promise.reject(new Error("WS not initialized"));
+    if (this.outbox) return this.enqueue(endpoint, params);
+    return this.request({ type: "mutation", name: endpoint, params });
+  }
+
+  /** Follow the outbox, e.g. to show pending writes. Returns a function to stop. */
+  onOutbox(listener: (entries: OutboxEntry[]) => void) {
+    this.outboxListeners.add(listener);
+    return () => void this.outboxListeners.delete(listener);
+  }
+
+  /** Send a failed outbox entry again */
+  retryOutbox(id: string) {
+    this.setOutbox(
+      this.outboxEntries.map(entry => {
+        if (entry.id !== id || entry.status !== "failed") return entry;
+        const { error: _, ...rest } = entry;
+        return { ...rest, status: "queued" };
+      })
+    );
+    this.flushOutbox();
+  }
+
+  /** Drop an outbox entry that was not sent yet, or failed */
+  discardOutbox(id: string) {
+    const entry = this.outboxEntries.find(e => e.id === id);
+    if (!entry || entry.status === "sending") return;
+    this.setOutbox(this.outboxEntries.filter(e => e !== entry));
+    const call = this.outboxCalls.get(id);
+    this.outboxCalls.delete(id);
+    call?.settle(
+      undefined,
+      new EndpointError(
+        entry.endpoint,
+        "disconnected",
+        `${entry.endpoint} discarded from the outbox`
+      )
+    );
+  }
+
+  private loadOutbox(storage: OutboxStorage) {
+    this.outbox = storage;
+    Promise.resolve()
+      .then(() => storage.load())
+      .then(
+        loaded => {
+          // Entries of a previous page come first, none of them is in flight
+          this.outboxLoaded = true;
+          this.setOutbox([
+            ...loaded.map(entry =>
+              entry.status === "sending"
+                ? { ...entry, status: "queued" as const }
+                : entry
+            ),
+            ...this.outboxEntries,
+          ]);
+          this.flushOutbox();
+        },
+        err => {
+          console.error(err);
+          this.outboxLoaded = true;
+          this.flushOutbox();
+        }
+      );
+  }
+
+  private setOutbox(entries: OutboxEntry[]) {
+    this.outboxEntries = entries;
+    if (this.outboxLoaded) {
+      Promise.resolve()
+        .then(() => this.outbox?.save(entries))
+        .catch(err => console.error(err));
+    }
+    this.outboxListeners.forEach(listener => listener(entries));
+  }
+
+  private enqueue(endpoint: string, params: any): Promise<any> {
+    if (!this.url) return Promise.reject(new Error("WS not initialized"));
     return new Promise((resolve, reject) => {
-      const requestId = crypto.randomUUID();
-      this.pendingCalls.set(requestId, (data, error) => {
-        if (error) reject(new Error(error));
-        else resolve(data);
+      const id = crypto.randomUUID();
+      this.outboxCalls.set(id, {
+        endpoint,
+        settle: (data, error) => {
+          if (error) reject(error);
+          else resolve(data);
+        },
       });
+      this.setOutbox([
+        ...this.outboxEntries,
+        {
+          id,
+          endpoint,
+          params,
+          createdAt: Date.now(),
+          status: "queued",
+          clientId: this.clientId,
+        },
+      ]);
+      this.flushOutbox();
+    });
+  }
+
+  /** Send the oldest queued entry, one at a time to keep them in order */
+  private flushOutbox() {
+    if (!this.outboxLoaded) return;
+    if (this.outboxEntries.some(entry => entry.status === "sending")) return;
+    const next = this.outboxEntries.find(entry => entry.status === "queued");
+    if (!next) return;
+    const sent = this.sendNow({
+      type: "mutation",
+      name: next.endpoint,
+      params: next.params,
+      requestId: next.id,
+      idempotencyKey: next.id,
+      ...(next.clientId && { clientId: next.clientId }),
+    });
+    if (!sent) return this.wake();
+    this.setOutbox(
+      this.outboxEntries.map(entry =>
+        entry === next ? { ...entry, status: "sending" } : entry
+      )
+    );
+  }
+
+  private settleOutbox(msg: any) {
+    const entry = this.outboxEntries.find(e => e.id === msg.requestId);
+    if (!entry) return;
+    const call = this.outboxCalls.get(entry.id);
+    this.outboxCalls.delete(entry.id);
+
+    if (msg.type === "mutationResult") {
+      this.setOutbox(this.outboxEntries.filter(e => e !== entry));
+      call?.settle(msg.data);
+    } else {
+      // Rejected by the server: kept for the user to retry or discard
+      const error = EndpointError.fromMessage(entry.endpoint, msg);
+      this.setOutbox(
+        this.outboxEntries.map(e =>
+          e === entry
+            ? {
+                ...e,
+                status: "failed",
+                error: { code: error.code, message: error.message },
+              }
+            : e
+        )
+      );
+      call?.settle(undefined, error);
+    }
+    this.flushOutbox();
+  }
+
+  /**
+   * Write a client store of the session, resolving with the value the server
+   * stored (once validated). Follow it with `subscribe(name, undefined, cb)`.
+   */
+  setClientStore(name: string, value: any): Promise<any> {
+    const previous = this.clientStores.get(name);
+    const had = this.clientStores.has(name);
+    this.clientStores.set(name, value);
+    return this.request({ type: "clientStoreSet", name, value }).catch(
+      error => {
+        // Rejected: don't restore it on reconnect
+        if (this.clientStores.get(name) === value) {
+          if (had) this.clientStores.set(name, previous);
+          else this.clientStores.delete(name);
+        }
+        throw error;
+      }
+    );
+  }
 
-      const msg = JSON.stringify({ type: "mutation", name: endpoint, params, requestId });
+  /** Send a message answered by `requestId` */
+  private request(message: {
+    type: string;
+    name: string;
+    [key: string]: unknown;
+  }): Promise<any> {
+    const endpoint = message.name;
+    if (!this.url) return Promise.reject(new Error("WS not initialized"));
+    return new Promise((resolve, reject) => {
+      const requestId = crypto.randomUUID();
+      this.pendingCalls.set(requestId, {
+        endpoint,
+        settle: (data, error) => {
+          if (error) reject(error);
+          else resolve(data);
+        },
+      });
 
-      if (this.ws.readyState === WebSocket.OPEN) this.ws.send(msg);
-      else
-        this.ws.addEventListener("open", () => {
-          this.ws!.send(msg);
-        }, { once: true });
+      const msg = { ...message, requestId };
+      this.send(msg);
 
       setTimeout(() => {
         if (this.pendingCalls.has(requestId)) {
           this.pendingCalls.delete(requestId);
-          reject(new Error(`Timeout calling ${endpoint}`));
+          this.queue = this.queue.filter(m => m !== msg);
+          reject(
+            new EndpointError(
+              endpoint,
+              "timeout",
+              `Timeout calling ${endpoint}`
+            )
+          );
         }
       }, 10000);
     });
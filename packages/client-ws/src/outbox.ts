@@ -0,0 +1,80 @@
+import type { ErrorCode } from "@reactivly/core";
+import { jsonCodec } from "@reactivly/core";
+
+/* ---------------- Offline Outbox ---------------- */
+/** Mutation waiting in the outbox until the server acknowledges it */
+export interface OutboxEntry {
+  /** Idempotency key: the server runs the mutation once per key */
+  id: string;
+  endpoint: string;
+  params: unknown;
+  createdAt: number;
+  /** `failed` entries were rejected by the server and are not replayed */
+  status: "queued" | "sending" | "failed";
+  error?: { code: ErrorCode; message: string };
+  /**
+   * Client that queued it: without authentication, replays are recognised
+   * per client rather than per session, which may have expired
+   */
+  clientId?: string;
+}
+
+/** Where the outbox is kept, e.g. to survive a reload */
+export interface OutboxStorage {
+  load(): OutboxEntry[] | Promise<OutboxEntry[]>;
+  save(entries: OutboxEntry[]): void | Promise<void>;
+}
+
+/** Outbox lost with the page, replaying writes across reconnects only */
+export function memoryOutbox(): OutboxStorage {
+  let saved: OutboxEntry[] = [];
+  return {
+    load: () => saved,
+    save: entries => void (saved = entries),
+  };
+}
+
+/** Outbox kept in `localStorage` (or another `Storage`), encoded as JSON */
+export function localStorageOutbox(
+  key = "reactivly:outbox",
+  storage: Pick<Storage, "getItem" | "setItem"> = globalThis.localStorage
+): OutboxStorage {
+  return {
+    load: () => {
+      const raw = storage.getItem(key);
+      return raw ? jsonCodec.decode(raw) : [];
+    },
+    save: entries => storage.setItem(key, jsonCodec.encode(entries) as string),
+  };
+}
+
+function idbRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Outbox kept in IndexedDB, for params too large for `localStorage` */
+export function indexedDbOutbox(
+  dbName = "reactivly",
+  storeName = "outbox"
+): OutboxStorage {
+  let db: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    if (db) return db;
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    return (db = idbRequest(request));
+  };
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    load: async () =>
+      (await idbRequest((await store("readonly")).get("entries"))) ?? [],
+    save: async entries => {
+      await idbRequest((await store("readwrite")).put(entries, "entries"));
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { QueryClient, QueryKey } from "@tanstack/query-core";
+import { jsonCodec, type DehydratedState } from "@reactivly/core";
+import type { EndpointsWSClient } from "./index.js";
+
+/* ---------------- TanStack Query helpers ---------------- */
+// Shared by the React and Vue clients, which only differ in their bindings
+
+/** Cached results replaced by an optimistic patch */
+export type OptimisticSnapshot = {
+  queryKey: QueryKey;
+  previous: unknown;
+  optimistic: unknown;
+}[];
+
+/** Patch the cached results of the queries `updates` lists, by endpoint */
+export function applyOptimistic(
+  queryClient: QueryClient,
+  prefix: unknown[],
+  updates:
+    | Record<
+        string,
+        ((data: any, params: any, queryParams: any) => unknown) | undefined
+      >
+    | undefined,
+  params: unknown
+): OptimisticSnapshot {
+  const snapshot: OptimisticSnapshot = [];
+  for (const [endpoint, update] of Object.entries(updates ?? {})) {
+    if (!update) continue;
+    const cached = queryClient.getQueriesData({
+      queryKey: [...prefix, endpoint],
+    });
+    for (const [queryKey, previous] of cached) {
+      if (previous === undefined) continue;
+      const optimistic = update(previous, params, queryKey[prefix.length + 1]);
+      queryClient.setQueryData(queryKey, optimistic);
+      snapshot.push({ queryKey, previous, optimistic });
+    }
+  }
+  return snapshot;
+}
+
+// Results the server updated since are left alone
+export function rollbackOptimistic(
+  queryClient: QueryClient,
+  snapshot: OptimisticSnapshot
+) {
+  for (const { queryKey, previous, optimistic } of snapshot) {
+    if (queryClient.getQueryData(queryKey) === optimistic)
+      queryClient.setQueryData(queryKey, previous);
+  }
+}
+
+/** Server subscription keeping a cached query current */
+interface LiveQuery {
+  unsubscribe: () => void;
+  /** Latest result, what a refetch resolves with */
+  result: Promise<unknown>;
+}
+
+// Live queries by query hash, per QueryClient. They end when the last
+// observer of the query leaves, or when it is garbage collected.
+const liveQueries = new WeakMap<QueryClient, Map<string, LiveQuery>>();
+
+function liveQueriesOf(queryClient: QueryClient) {
+  const existing = liveQueries.get(queryClient);
+  if (existing) return existing;
+  const live = new Map<string, LiveQuery>();
+  liveQueries.set(queryClient, live);
+  queryClient.getQueryCache().subscribe(event => {
+    const { query } = event;
+    const unobserved =
+      event.type === "observerRemoved" && query.getObserversCount() === 0;
+    if (event.type !== "removed" && !unobserved) return;
+    const current = live.get(query.queryHash);
+    if (!current) return;
+    live.delete(query.queryHash);
+    current.unsubscribe();
+    // No longer live: the next observer subscribes again
+    if (unobserved) query.invalidate();
+  });
+  return live;
+}
+
+/** `queryFn` of a live query, subscribing once per cached query */
+export function liveQueryFn<T>(
+  queryClient: QueryClient,
+  wsClient: EndpointsWSClient,
+  queryKey: QueryKey,
+  endpoint: string,
+  params: unknown
+): Promise<T> {
+  const live = liveQueriesOf(queryClient);
+  const { queryHash } = queryClient
+    .getQueryCache()
+    .find({ queryKey, exact: true })!;
+  // Refetched while subscribed (e.g. invalidated): already current
+  const current = live.get(queryHash);
+  if (current) return current.result as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const entry: LiveQuery = {
+      unsubscribe: () => {},
+      result: Promise.resolve(),
+    };
+    live.set(queryHash, entry);
+    entry.unsubscribe = wsClient.subscribe(
+      endpoint,
+      params,
+      data => {
+        resolve(data);
+        entry.result = Promise.resolve(data);
+        queryClient.setQueryData(queryKey, data);
+      },
+      error => {
+        live.delete(queryHash);
+        reject(error);
+        // Revoked after the first result: surface it on the query
+        queryClient.getQueryCache().find({ queryKey, exact: true })?.setState({
+          status: "error",
+          fetchStatus: "idle",
+          error,
+          errorUpdatedAt: Date.now(),
+        });
+      }
+    );
+  });
+}
+
+/** Seed the cache and `wsClient` with the results of a server render */
+export function hydrateQueries(
+  queryClient: QueryClient,
+  prefix: unknown[],
+  state: string | DehydratedState,
+  wsClient: EndpointsWSClient | null
+) {
+  const dehydrated =
+    typeof state === "string"
+      ? (jsonCodec.decode(state) as DehydratedState)
+      : state;
+  wsClient?.hydrate(dehydrated);
+  for (const { endpoint, params, data } of dehydrated.queries) {
+    const queryKey = [...prefix, endpoint, params ?? {}];
+    queryClient.setQueryData(queryKey, data);
+    // Stale, for the query to subscribe once mounted
+    void queryClient.invalidateQueries({
+      queryKey,
+      exact: true,
+      refetchType: "none",
+    });
+  }
+}
@@ -0,0 +1,182 @@
+import { EndpointsWSClient, EndpointError } from "@reactivly/client-ws";
+import type {
+  ClientStoreKeys,
+  ClientStoreValue,
+  DehydratedState,
+  EndpointParams,
+  EndpointResult,
+  EndpointsWSClientOptions,
+  MutationKeys,
+  QueryKeys,
+} from "@reactivly/client-ws";
+
+export { EndpointError, EndpointsWSClient };
+export type {
+  ErrorCode,
+  ErrorIssue,
+  DehydratedState,
+  EndpointsWSClientOptions,
+} from "@reactivly/client-ws";
+
+export interface ClientOptions extends EndpointsWSClientOptions {
+  /** Server URL, e.g. `ws://localhost:3001` */
+  url?: string;
+  /** Connection to use instead of one created for `url` */
+  client?: EndpointsWSClient;
+}
+
+/** Stops a subscription, `setParams` moves it to other params in place */
+export interface Unsubscribe<TParams> {
+  (): void;
+  setParams(next: TParams): void;
+}
+
+/**
+ * Results of a live query as they arrive. A consumer slower than the updates
+ * gets the latest one only. A revoked subscription throws its error, `return`
+ * (or leaving a `for await` loop) unsubscribes.
+ */
+export interface LiveQueryIterator<T> extends AsyncIterableIterator<T> {
+  return(): Promise<IteratorResult<T>>;
+}
+
+export interface ReactivlyClient<Endpoints> {
+  /** Underlying connection */
+  ws: EndpointsWSClient;
+  /** Follow a live query, `onData` gets every result */
+  subscribe<K extends QueryKeys<Endpoints>>(
+    endpoint: K,
+    params: EndpointParams<Endpoints[K]>,
+    onData: (data: EndpointResult<Endpoints[K]>) => void,
+    onError?: (error: EndpointError) => void
+  ): Unsubscribe<EndpointParams<Endpoints[K]>>;
+  /** Follow a live query with `for await` */
+  live<K extends QueryKeys<Endpoints>>(
+    endpoint: K,
+    params?: EndpointParams<Endpoints[K]>
+  ): LiveQueryIterator<EndpointResult<Endpoints[K]>>;
+  /** Current result of a query, without following it */
+  fetchQuery<K extends QueryKeys<Endpoints>>(
+    endpoint: K,
+    params?: EndpointParams<Endpoints[K]>
+  ): Promise<EndpointResult<Endpoints[K]>>;
+  mutate<K extends MutationKeys<Endpoints>>(
+    endpoint: K,
+    params: EndpointParams<Endpoints[K]>
+  ): Promise<EndpointResult<Endpoints[K]>>;
+  /** Write a client store, resolving with the value the server stored */
+  setClientStore<K extends ClientStoreKeys<Endpoints>>(
+    name: K,
+    value: ClientStoreValue<Endpoints[K]>
+  ): Promise<ClientStoreValue<Endpoints[K]>>;
+  /** Start from the results of a server render, see `ssr()` */
+  hydrate(state: string | DehydratedState): void;
+  /** Close the connection for good */
+  close(): void;
+}
+
+function liveIterator<T>(
+  ws: EndpointsWSClient,
+  endpoint: string,
+  params: unknown
+): LiveQueryIterator<T> {
+  let latest: { value: T } | undefined;
+  let failure: EndpointError | undefined;
+  let done = false;
+  let waiting:
+    | {
+        resolve: (result: IteratorResult<T>) => void;
+        reject: (error: EndpointError) => void;
+      }
+    | undefined;
+
+  const unsubscribe = ws.subscribe(
+    endpoint,
+    params,
+    (value: T) => {
+      if (done) return;
+      if (!waiting) return void (latest = { value });
+      waiting.resolve({ value, done: false });
+      waiting = undefined;
+    },
+    (error) => {
+      if (done) return;
+      if (!waiting) return void (failure = error);
+      done = true;
+      waiting.reject(error);
+      waiting = undefined;
+    }
+  );
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    if (!done) unsubscribe();
+    done = true;
+    latest = undefined;
+    waiting?.resolve({ value: undefined, done: true });
+    waiting = undefined;
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  return {
+    next() {
+      if (latest) {
+        const { value } = latest;
+        latest = undefined;
+        return Promise.resolve({ value, done: false });
+      }
+      if (failure) {
+        const error = failure;
+        failure = undefined;
+        done = true;
+        return Promise.reject(error);
+      }
+      if (done) return Promise.resolve({ value: undefined, done: true });
+      return new Promise((resolve, reject) => (waiting = { resolve, reject }));
+    },
+    return: finish,
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Typed client of a server's `Endpoints`, for any framework or none (Node
+ * workers, CLIs…)
+ */
+export function createClient<Endpoints extends Record<string, any>>(
+  options: ClientOptions
+): ReactivlyClient<Endpoints> {
+  const { url, client, ...clientOptions } = options;
+  const ws = client ?? (url ? new EndpointsWSClient(url, clientOptions) : null);
+  if (!ws) throw new Error("createClient needs a `url` or a `client`");
+
+  return {
+    ws,
+    subscribe: (endpoint, params, onData, onError) =>
+      ws.subscribe(endpoint, params, onData, onError),
+    live: (endpoint, params) => liveIterator(ws, endpoint, params),
+    fetchQuery: (endpoint, params) =>
+      new Promise((resolve, reject) => {
+        let settled = false;
+        const settle = (fn: () => void) => {
+          if (settled) return;
+          settled = true;
+          fn();
+          // Delivered synchronously when already subscribed: unsubscribe
+          // once assigned
+          queueMicrotask(() => unsubscribe());
+        };
+        const unsubscribe = ws.subscribe(
+          endpoint,
+          params,
+          (data) => settle(() => resolve(data)),
+          (error) => settle(() => reject(error))
+        );
+      }),
+    mutate: (endpoint, params) => ws.call(endpoint, params),
+    setClientStore: (name, value) => ws.setClientStore(name, value),
+    hydrate: (state) => ws.hydrate(state),
+    close: () => ws.close(),
+  };
+}
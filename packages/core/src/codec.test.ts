@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { digest, encodeInline, jsonCodec, msgpackCodec } from "./codec.js";
+
+const roundTrip = (value: unknown) => jsonCodec.decode(jsonCodec.encode(value));
+
+describe("jsonCodec", () => {
+  it("round-trips tagged values", () => {
+    const value = {
+      date: new Date(1_700_000_000_000),
+      big: 2n ** 70n,
+      map: new Map<unknown, unknown>([
+        ["a", 1],
+        [2, new Set([3])],
+      ]),
+      set: new Set(["x", "y"]),
+      bytes: new Uint8Array([0, 127, 255]),
+      nested: [{ when: new Date(0) }],
+    };
+    assert.deepEqual(roundTrip(value), value);
+  });
+
+  it("tags values on the wire", () => {
+    assert.equal(
+      jsonCodec.encode({ at: new Date(5), n: 1n }),
+      '{"at":{"$type":"Date","value":5},"n":{"$type":"BigInt","value":"1"}}'
+    );
+  });
+
+  it("escapes `$type` keys of plain objects", () => {
+    const value = { $type: "Date", value: 0 };
+    assert.equal(jsonCodec.encode(value), '{"$$type":"Date","value":0}');
+    assert.deepEqual(roundTrip(value), value);
+    assert.deepEqual(roundTrip({ $$type: 1, $$$type: [{ $type: "x" }] }), {
+      $$type: 1,
+      $$$type: [{ $type: "x" }],
+    });
+  });
+
+  it("keeps tags that fail to decode as sent", () => {
+    const decode = (json: string) => jsonCodec.decode(json);
+    assert.deepEqual(decode('{"$type":"Date","value":"nope"}'), {
+      $type: "Date",
+      value: "nope",
+    });
+    assert.deepEqual(decode('{"$type":"BigInt","value":"1.5"}'), {
+      $type: "BigInt",
+      value: "1.5",
+    });
+    assert.deepEqual(decode('{"$type":"Other","value":1}'), {
+      $type: "Other",
+      value: 1,
+    });
+  });
+
+  it("decodes bytes as well as strings", () => {
+    const bytes = new TextEncoder().encode(
+      '{"n":{"$type":"BigInt","value":"7"}}'
+    );
+    assert.deepEqual(jsonCodec.decode(bytes), { n: 7n });
+    assert.deepEqual(jsonCodec.decode(bytes.buffer), { n: 7n });
+  });
+});
+
+describe("msgpackCodec", () => {
+  it("round-trips extension types", () => {
+    const value = {
+      date: new Date(1_700_000_000_000),
+      big: -(2n ** 70n),
+      map: new Map([["a", new Set([1, 2])]]),
+      bytes: new Uint8Array([1, 2, 3]),
+      $type: "kept as is",
+    };
+    assert.deepEqual(msgpackCodec.decode(msgpackCodec.encode(value)), value);
+  });
+
+  it("drops undefined properties like JSON", () => {
+    const encoded = msgpackCodec.encode({ a: undefined, b: 1 });
+    assert.deepEqual(msgpackCodec.decode(encoded), { b: 1 });
+  });
+});
+
+describe("encodeInline", () => {
+  it("cannot close the script it is inlined in", () => {
+    const inline = encodeInline({ html: "</script><script> " });
+    assert.equal(inline.includes("</script>"), false);
+    assert.equal(inline.includes(" "), false);
+    assert.deepEqual(jsonCodec.decode(inline), {
+      html: "</script><script> ",
+    });
+  });
+});
+
+describe("digest", () => {
+  it("matches for equal encodings only", () => {
+    assert.equal(digest({ a: [1, 2] }), digest({ a: [1, 2] }));
+    assert.notEqual(digest({ a: [1, 2] }), digest({ a: [2, 1] }));
+    assert.notEqual(digest(new Date(0)), digest(0));
+  });
+
+  it("hashes undefined", () => {
+    assert.equal(typeof digest(undefined), "string");
+    assert.notEqual(digest(undefined), digest(null));
+  });
+});
@@ -0,0 +1,173 @@
+import { ExtensionCodec, decode, encode } from "@msgpack/msgpack";
+
+/* ---------------- Wire Codecs ---------------- */
+export type WireData = string | ArrayBuffer | Uint8Array;
+
+export interface Codec {
+  /** WebSocket subprotocol the codec is negotiated with */
+  name: string;
+  encode(msg: unknown): string | Uint8Array;
+  decode(data: WireData): any;
+}
+
+function toBytes(data: WireData): Uint8Array {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// `$type` keys of plain objects get one more `$` on the wire, so that only
+// tags are decoded as tags
+const ESCAPED_TYPE = /^\$+type$/;
+
+function renameTypeKeys(obj: object, rename: (key: string) => string) {
+  return Object.fromEntries(
+    Object.entries(obj).map(([key, value]) => [
+      ESCAPED_TYPE.test(key) ? rename(key) : key,
+      value,
+    ])
+  );
+}
+
+function hasTypeKey(obj: object, pattern: RegExp) {
+  for (const key in obj) if (pattern.test(key)) return true;
+  return false;
+}
+
+function revive(tag: { $type: unknown; value: any }): unknown {
+  switch (tag.$type) {
+    case "Date": {
+      const date = new Date(tag.value);
+      return isNaN(date.getTime()) ? tag : date;
+    }
+    case "BigInt":
+      return BigInt(tag.value);
+    case "Map":
+      return new Map(tag.value);
+    case "Set":
+      return new Set(tag.value);
+    case "Uint8Array":
+      return fromBase64(tag.value);
+    default:
+      return tag;
+  }
+}
+
+/**
+ * JSON, with `Date`, `bigint`, `Map`, `Set` and `Uint8Array` values tagged as
+ * `{ $type, value }` objects so they survive the round trip. Tags that fail to
+ * decode are kept as sent.
+ */
+export const jsonCodec: Codec = {
+  name: "reactivly.json",
+  encode: (msg) =>
+    JSON.stringify(msg, function (key, value) {
+      // `this[key]` is the raw value, before `Date#toJSON` ran
+      const raw = (this as Record<string, unknown>)[key];
+      if (raw instanceof Date) return { $type: "Date", value: raw.getTime() };
+      if (typeof raw === "bigint")
+        return { $type: "BigInt", value: raw.toString() };
+      if (raw instanceof Map) return { $type: "Map", value: [...raw] };
+      if (raw instanceof Set) return { $type: "Set", value: [...raw] };
+      if (raw instanceof Uint8Array)
+        return { $type: "Uint8Array", value: toBase64(raw) };
+      if (
+        value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        hasTypeKey(value, ESCAPED_TYPE)
+      )
+        return renameTypeKeys(value, (k) => "$" + k);
+      return value;
+    }),
+  decode: (data) =>
+    JSON.parse(
+      typeof data === "string" ? data : new TextDecoder().decode(toBytes(data)),
+      (_key, value) => {
+        if (!value || typeof value !== "object" || Array.isArray(value))
+          return value;
+        if ("$type" in value) {
+          try {
+            return revive(value);
+          } catch {
+            return value;
+          }
+        }
+        return hasTypeKey(value, /^\$\$+type$/)
+          ? renameTypeKeys(value, (k) => k.slice(1))
+          : value;
+      }
+    ),
+};
+
+// Dates use the built-in timestamp extension, Uint8Array the native bin type
+const extensionCodec = new ExtensionCodec();
+extensionCodec.register({
+  type: 0,
+  encode: (val) =>
+    typeof val === "bigint" ? new TextEncoder().encode(val.toString()) : null,
+  decode: (data) => BigInt(new TextDecoder().decode(data)),
+});
+extensionCodec.register({
+  type: 1,
+  encode: (val): Uint8Array | null =>
+    val instanceof Map ? encode([...val], { extensionCodec }) : null,
+  decode: (data) =>
+    new Map(decode(data, { extensionCodec }) as [unknown, unknown][]),
+});
+extensionCodec.register({
+  type: 2,
+  encode: (val): Uint8Array | null =>
+    val instanceof Set ? encode([...val], { extensionCodec }) : null,
+  decode: (data) => new Set(decode(data, { extensionCodec }) as unknown[]),
+});
+
+/** MessagePack, binary and compact */
+export const msgpackCodec: Codec = {
+  name: "reactivly.msgpack",
+  encode: (msg) => encode(msg, { extensionCodec, ignoreUndefined: true }),
+  decode: (data) => decode(toBytes(data), { extensionCodec }),
+};
+
+/** Pick the codec of a negotiated subprotocol, JSON when none was agreed */
+export function codecFor(protocol: string, codecs: Codec[] = [jsonCodec]) {
+  return codecs.find((c) => c.name === protocol) ?? jsonCodec;
+}
+
+/** `jsonCodec` encoding that is safe to inline in an HTML `<script>` */
+export function encodeInline(value: unknown): string {
+  return (jsonCodec.encode(value) as string)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Short hash (cyrb53) of a value's `jsonCodec` encoding, to tell whether a
+ * client already has a result without sending it
+ */
+export function digest(value: unknown): string {
+  // `undefined` has no JSON
+  const str = (jsonCodec.encode(value) as string | undefined) ?? "";
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -2,13 +2,14 @@
 export type Scope = "global" | "session";
 export type Kind = "stateful" | "stateless";
 export type Subscriber<T = any> = (value: T) => void;
+export type ErrorSubscriber = (error: unknown) => void;
 
 export interface ReactiveSourceBase<T = any> {
   scope: Scope;
   kind: Kind;
   subscribe: (
     fn: Subscriber<T>,
-    _sessionId?: string
+    onError?: ErrorSubscriber
   ) => { unsubscribe: () => void };
   notifyChanges(): void;
 }
@@ -27,7 +28,7 @@ export interface NotifierReactiveSource extends ReactiveSourceBase<void> {
 export interface LiveQueryResult<TResult> {
   subscribe: (
     fn: Subscriber<TResult>,
-    _sessionId?: string
+    onError?: ErrorSubscriber
   ) => { unsubscribe: () => void };
 }
 
@@ -35,7 +36,142 @@ export type ReactiveSource<T = any> =
   | StoreReactiveSource<T>
   | NotifierReactiveSource;
 
+/** Session store written by its client, read-only on the server */
+export interface ClientStoreDescriptor<T = any> extends StoreReactiveSource<T> {
+  client: true;
+  /** Schema (zod) client values are validated against */
+  schema?: unknown;
+}
+
 export interface ClientSubscription {
   sub: { unsubscribe: () => void };
   name: string;
 }
+
+/* ---------------- Endpoints ---------------- */
+export type EndpointKind = "query" | "mutation";
+
+/**
+ * What `query()` and `mutation()` return on the server, and what transports
+ * and clients read types from. `~types` is never set at runtime.
+ */
+export interface EndpointDescriptor<
+  TKind extends EndpointKind = EndpointKind,
+  TParams = any,
+  TResult = any,
+> {
+  kind: TKind;
+  /** Key in the endpoint map, assigned when the server registers it */
+  name?: string;
+  /** Schema (zod) params are validated against */
+  schema?: unknown;
+  /** Sources the endpoint re-runs on */
+  deps: ReactiveSource[];
+  readonly "~types"?: { params: TParams; result: TResult };
+}
+
+export interface QueryDescriptor<TParams = any, TResult = any>
+  extends EndpointDescriptor<"query", TParams, TResult> {
+  scope: Scope;
+  delta: boolean;
+}
+
+export type MutationDescriptor<
+  TParams = any,
+  TResult = any,
+> = EndpointDescriptor<"mutation", TParams, TResult>;
+
+export type EndpointParams<E> = E extends {
+  "~types"?: { params: infer TParams };
+}
+  ? TParams
+  : never;
+
+export type EndpointResult<E> = E extends {
+  "~types"?: { result: infer TResult };
+}
+  ? TResult
+  : never;
+
+export type QueryKeys<Endpoints> = {
+  [K in keyof Endpoints]: Endpoints[K] extends { kind: "query" } ? K : never;
+}[keyof Endpoints] &
+  string;
+
+export type MutationKeys<Endpoints> = {
+  [K in keyof Endpoints]: Endpoints[K] extends { kind: "mutation" } ? K : never;
+}[keyof Endpoints] &
+  string;
+
+export type ClientStoreKeys<Endpoints> = {
+  [K in keyof Endpoints]: Endpoints[K] extends { client: true } ? K : never;
+}[keyof Endpoints] &
+  string;
+
+export type ClientStoreValue<E> =
+  E extends ClientStoreDescriptor<infer T> ? T : never;
+
+/**
+ * Optimistic patches a mutation `K` applies to the cached results of the
+ * queries it affects, by query: called for every cached subscription of that
+ * query with the mutation and subscription params, it returns the expected
+ * result until the server's next update.
+ */
+export type OptimisticUpdates<Endpoints, K extends keyof Endpoints> = {
+  [Q in QueryKeys<Endpoints>]?: (
+    data: EndpointResult<Endpoints[Q]>,
+    params: EndpointParams<Endpoints[K]>,
+    queryParams: EndpointParams<Endpoints[Q]>
+  ) => EndpointResult<Endpoints[Q]>;
+};
+
+/* ---------------- Protocol ---------------- */
+/**
+ * `timeout` and `disconnected` are raised client side, when no answer arrives
+ * in time or the connection carrying the call was lost
+ */
+export type ErrorCode =
+  | "validation"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "internal"
+  | "timeout"
+  | "disconnected";
+
+export interface ErrorIssue {
+  path: PropertyKey[];
+  message: string;
+  code?: string;
+}
+
+/** Sent instead of a result, for the mutation `requestId` or the live `subId` */
+export interface ErrorMessage {
+  type: "error";
+  name?: string;
+  requestId?: string;
+  subId?: string;
+  code: ErrorCode;
+  message: string;
+  issues?: ErrorIssue[];
+}
+
+/** Result of a query rendered on the server */
+export interface DehydratedQuery {
+  endpoint: string;
+  params?: unknown;
+  data: unknown;
+}
+
+/** What a server render hands to the browser, see `ssr()` */
+export interface DehydratedState {
+  /** Session token of the render, resumed by the browser's socket */
+  session?: string;
+  queries: DehydratedQuery[];
+}
+
+/** Close code of connections the server dropped for idling */
+export const IDLE_CLOSE_CODE = 4000;
+
+export * from "./patch.js";
+export * from "./codec.js";
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyPatch, deepEqual, diff } from "./patch.js";
+
+// `diff` then `applyPatch` must land on `next`, whatever the shapes
+const roundTrip = (prev: unknown, next: unknown) =>
+  assert.deepEqual(applyPatch(prev, diff(prev, next)), next);
+
+describe("diff", () => {
+  it("finds no operations between equal values", () => {
+    assert.deepEqual(diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }), []);
+    assert.deepEqual(diff(new Date(0), new Date(0)), []);
+    assert.deepEqual(diff(new Uint8Array([1, 2]), new Uint8Array([1, 2])), []);
+  });
+
+  it("patches only the changed keys", () => {
+    assert.deepEqual(diff({ a: 1, b: 2 }, { a: 1, b: 3, c: 4 }), [
+      { op: "replace", path: "/b", value: 3 },
+      { op: "add", path: "/c", value: 4 },
+    ]);
+    assert.deepEqual(diff({ a: 1, b: 2 }, { b: 2 }), [
+      { op: "remove", path: "/a" },
+    ]);
+  });
+
+  it("keeps single inserts and removals in arrays small", () => {
+    assert.deepEqual(diff([1, 2, 3, 4], [1, 2, 9, 3, 4]), [
+      { op: "add", path: "/2", value: 9 },
+    ]);
+    assert.deepEqual(diff([1, 2, 3, 4], [1, 3, 4]), [
+      { op: "remove", path: "/1" },
+    ]);
+  });
+
+  it("escapes `~` and `/` in keys", () => {
+    assert.deepEqual(diff({}, { "a/b": 1, "c~d": 2 }), [
+      { op: "add", path: "/a~1b", value: 1 },
+      { op: "add", path: "/c~0d", value: 2 },
+    ]);
+  });
+
+  it("only compares own keys", () => {
+    const ops = diff({ constructor: 1, toString: 2 }, {});
+    assert.deepEqual(ops, [
+      { op: "remove", path: "/constructor" },
+      { op: "remove", path: "/toString" },
+    ]);
+    assert.equal(deepEqual({}, { constructor: Object }), false);
+  });
+
+  it("replaces values of different types whole", () => {
+    assert.deepEqual(diff([1], { 0: 1 }), [
+      { op: "replace", path: "", value: { 0: 1 } },
+    ]);
+    assert.deepEqual(diff(new Map([[1, 2]]), new Map([[1, 3]])), [
+      { op: "replace", path: "", value: new Map([[1, 3]]) },
+    ]);
+  });
+});
+
+describe("applyPatch", () => {
+  it("round-trips objects, arrays and nested changes", () => {
+    roundTrip({ a: 1, b: { c: [1, 2] } }, { b: { c: [2, 3, 4] }, d: null });
+    roundTrip([1, 2, 3, 4, 5], [5, 4, 3]);
+    roundTrip([{ id: 1 }, { id: 2 }], [{ id: 1, done: true }, { id: 3 }]);
+    roundTrip({ "a/b": { "c~d": 1 } }, { "a/b": { "c~d": 2 } });
+    roundTrip({ constructor: 1, toString: 2 }, { hasOwnProperty: 3 });
+    roundTrip("a", { a: 1 });
+    roundTrip({ a: 1 }, undefined);
+  });
+
+  it("does not mutate the document", () => {
+    const doc = { list: [1, 2], other: { x: 1 } };
+    const next = applyPatch(doc, [{ op: "add", path: "/list/-", value: 3 }]);
+    assert.deepEqual(doc, { list: [1, 2], other: { x: 1 } });
+    assert.deepEqual(next.list, [1, 2, 3]);
+    // Untouched branches are shared
+    assert.equal(next.other, doc.other);
+  });
+
+  it("rejects paths through non-containers", () => {
+    assert.throws(
+      () => applyPatch({ a: 1 }, [{ op: "add", path: "/a/b", value: 2 }]),
+      /Invalid patch path: \/a\/b/
+    );
+  });
+});
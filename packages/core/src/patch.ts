@@ -0,0 +1,149 @@
+/* ---------------- JSON Patch (RFC 6902) ---------------- */
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+function isPlainObject(val: unknown): val is Record<string, unknown> {
+  if (val === null || typeof val !== "object") return false;
+  const proto = Object.getPrototypeOf(val);
+  return proto === Object.prototype || proto === null;
+}
+
+function isContainer(val: unknown): val is Container {
+  return Array.isArray(val) || isPlainObject(val);
+}
+
+const escape = (key: string | number) =>
+  String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+const unescape = (key: string) => key.replace(/~1/g, "/").replace(/~0/g, "~");
+
+// Not `Object.hasOwn`: the apps still target ES2020
+const hasOwn = (obj: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(obj, key);
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => hasOwn(b, k) && deepEqual(a[k], b[k]))
+    );
+  }
+  return false;
+}
+
+/** Operations turning `prev` into `next` */
+export function diff(
+  prev: unknown,
+  next: unknown,
+  path = "",
+  ops: PatchOperation[] = []
+): PatchOperation[] {
+  if (deepEqual(prev, next)) return ops;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    // Trim the common head and tail, so single inserts/removals stay small
+    let start = 0;
+    while (
+      start < prev.length &&
+      start < next.length &&
+      deepEqual(prev[start], next[start])
+    )
+      start++;
+    let prevEnd = prev.length;
+    let nextEnd = next.length;
+    while (
+      prevEnd > start &&
+      nextEnd > start &&
+      deepEqual(prev[prevEnd - 1], next[nextEnd - 1])
+    ) {
+      prevEnd--;
+      nextEnd--;
+    }
+
+    const common = Math.min(prevEnd, nextEnd);
+    for (let i = start; i < common; i++) {
+      diff(prev[i], next[i], `${path}/${i}`, ops);
+    }
+    for (let i = prevEnd - 1; i >= common; i--) {
+      ops.push({ op: "remove", path: `${path}/${i}` });
+    }
+    for (let i = common; i < nextEnd; i++) {
+      ops.push({ op: "add", path: `${path}/${i}`, value: next[i] });
+    }
+    return ops;
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (!hasOwn(next, key))
+        ops.push({ op: "remove", path: `${path}/${escape(key)}` });
+    }
+    for (const key of Object.keys(next)) {
+      const keyPath = `${path}/${escape(key)}`;
+      if (hasOwn(prev, key)) diff(prev[key], next[key], keyPath, ops);
+      else ops.push({ op: "add", path: keyPath, value: next[key] });
+    }
+    return ops;
+  }
+
+  ops.push({ op: "replace", path, value: next });
+  return ops;
+}
+
+/** Apply `ops` to `doc` without mutating it: only touched branches are copied */
+export function applyPatch<T>(doc: T, ops: PatchOperation[]): T {
+  let root: unknown = doc;
+  for (const operation of ops) {
+    if (operation.path === "") {
+      if (operation.op === "remove") root = undefined;
+      else root = operation.value;
+      continue;
+    }
+    const keys = operation.path.slice(1).split("/").map(unescape);
+    root = applyAt(root, keys, operation);
+  }
+  return root as T;
+}
+
+function applyAt(
+  target: unknown,
+  keys: string[],
+  operation: PatchOperation
+): unknown {
+  if (!isContainer(target)) {
+    throw new Error(`Invalid patch path: ${operation.path}`);
+  }
+  const [key, ...rest] = keys as [string, ...string[]];
+  const copy: any = Array.isArray(target) ? [...target] : { ...target };
+
+  if (rest.length > 0) {
+    copy[key] = applyAt(copy[key], rest, operation);
+    return copy;
+  }
+
+  if (Array.isArray(copy)) {
+    const index = key === "-" ? copy.length : Number(key);
+    if (operation.op === "add") copy.splice(index, 0, operation.value);
+    else if (operation.op === "remove") copy.splice(index, 1);
+    else copy[index] = operation.value;
+  } else if (operation.op === "remove") {
+    delete copy[key];
+  } else {
+    copy[key] = operation.value;
+  }
+  return copy;
+}
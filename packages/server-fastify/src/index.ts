@@ -1,52 +1,263 @@
-import Fastify from "fastify";
-import type { EndpointOrMutation } from "@reactivly/server";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
+import type { IncomingMessage } from "node:http";
+import {
+  asyncApiDocument,
+  callMutation,
+  fetchQuery,
+  isMutation,
+  isQuery,
+  openRequestContext,
+  paramsJsonSchema,
+  toEndpointError,
+  watchQuery,
+  type ApiInfo,
+  type AuthUser,
+  type EndpointErrorCode,
+  type JsonSchema,
+  type ReactiveWSServer,
+} from "@reactivly/server";
+import { openApiDocument } from "./openapi.js";
+
+export { openApiDocument };
+
+export interface FastifyServerOptions {
+  port?: number;
+  /**
+   * Reactive WS server to mount on the same port, created without a port of
+   * its own: `createReactiveWSServer(factory, { authenticate })`
+   */
+  live?: Pick<ReactiveWSServer<any>, "attach" | "authenticate">;
+  /** Path the live protocol is served on (default `/live`) */
+  livePath?: string;
+  /**
+   * Authenticates HTTP requests like WS upgrades, `false` or throwing
+   * answers 401. Defaults to the `live` server's `authenticate`.
+   */
+  authenticate?: (
+    req: IncomingMessage
+  ) => AuthUser | false | Promise<AuthUser | false>;
+  /** Interval of SSE keep-alive comments (ms) */
+  keepAliveInterval?: number;
+  /**
+   * Where the OpenAPI (HTTP routes) and AsyncAPI (live protocol) documents
+   * are served, without authentication. `false` to not serve them.
+   */
+  docs?: DocsOptions | false;
+}
+
+export interface DocsOptions extends ApiInfo {
+  /** Default `/openapi.json` */
+  openapiPath?: string;
+  /** Default `/asyncapi.json` */
+  asyncapiPath?: string;
+}
+
+const statusCodes: Record<EndpointErrorCode, number> = {
+  validation: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  internal: 500,
+};
+
+function errorBody(err: unknown) {
+  const { code, message, issues } = toEndpointError(err);
+  return { status: statusCodes[code], error: { code, message, issues } };
+}
+
+// Query strings only carry strings: read each value as the type its param
+// schema expects, objects and arrays as JSON like the OpenAPI document says
+function coerceQueryValue(
+  value: string | string[],
+  schema: JsonSchema | undefined
+): unknown {
+  // Repeated keys (`?tag=a&tag=b`): one item per occurrence
+  if (Array.isArray(value)) {
+    const items = schema?.items as JsonSchema | undefined;
+    return value.map((item) => coerceQueryValue(item, items ?? schema));
+  }
+  const types = ([] as unknown[]).concat(schema?.type ?? []);
+  if (types.includes("string")) return value;
+  if (
+    (types.includes("number") || types.includes("integer")) &&
+    value.trim() !== "" &&
+    !isNaN(Number(value))
+  )
+    return Number(value);
+  if (types.includes("boolean") && (value === "true" || value === "false"))
+    return value === "true";
+  if (types.includes("null") && value === "null") return null;
+  if (types.includes("object") || types.includes("array")) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// HTTP consumers get plain JSON rather than the tagged values of the WS
+// codecs: dates as ISO strings, bigints as strings, maps as objects, sets as
+// arrays, bytes as base64 and `undefined` as `null`
+function toJson(value: unknown) {
+  const json = JSON.stringify(value, (_key, val) => {
+    if (typeof val === "bigint") return val.toString();
+    if (val instanceof Map) return Object.fromEntries(val);
+    if (val instanceof Set) return [...val];
+    if (val instanceof Uint8Array) return Buffer.from(val).toString("base64");
+    return val;
+  });
+  return json ?? "null";
+}
+
+function parseQueryString(
+  query: Record<string, string | string[]>,
+  schema: JsonSchema | undefined
+) {
+  const properties = (schema?.properties ?? {}) as Record<string, JsonSchema>;
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    params[key] = coerceQueryValue(value, properties[key]);
+  }
+  return Object.keys(params).length ? params : undefined;
+}
 
 /**
- * Create a Fastify server from reactive endpoints
+ * Create a Fastify server from reactive endpoints:
+ * - `GET /api/:name` answers the current result of a query
+ * - `GET /api/:name/live` streams its results as Server-Sent Events
+ * - `POST /api/:name` runs a mutation with the JSON body as params
+ * - `GET /openapi.json` and `GET /asyncapi.json` describe both protocols
  */
-export function createFastifyServer<
-  Endpoints extends Record<string, EndpointOrMutation>,
->(endpoints: Endpoints, opts?: { port?: number }) {
+export function createFastifyServer<Endpoints extends Record<string, any>>(
+  endpoints: Endpoints,
+  opts?: FastifyServerOptions
+) {
   const app = Fastify();
+  const authenticate = opts?.authenticate ?? opts?.live?.authenticate;
+  const keepAliveInterval = opts?.keepAliveInterval ?? 15_000;
 
-  for (const key in endpoints) {
-    const ep = endpoints[key]!;
+  opts?.live?.attach(app.server, opts.livePath);
+
+  if (opts?.docs !== false) {
+    const {
+      openapiPath = "/openapi.json",
+      asyncapiPath = "/asyncapi.json",
+      ...info
+    } = opts?.docs ?? {};
+    const openapi = openApiDocument(endpoints, info);
+    const asyncapi = asyncApiDocument(endpoints, {
+      ...info,
+      ...(opts?.livePath && { path: opts.livePath }),
+    });
+    app.get(openapiPath, async () => openapi);
+    app.get(asyncapiPath, async () => asyncapi);
+  }
 
-    // --- Type guards ---
-    const isQuery = (
-      e: EndpointOrMutation
-    ): e is Extract<EndpointOrMutation, { type: "query" }> => "fetch" in e;
+  async function openContext(request: FastifyRequest, reply: FastifyReply) {
+    let user: AuthUser | false = undefined as AuthUser;
+    try {
+      if (authenticate) user = await authenticate(request.raw);
+    } catch {
+      user = false;
+    }
+    if (user === false) {
+      reply.status(401).send({
+        error: { code: "unauthorized", message: "Unauthorized" },
+      });
+      return;
+    }
+    return openRequestContext(request.raw, user);
+  }
 
-    const isMutation = (
-      e: EndpointOrMutation
-    ): e is Extract<EndpointOrMutation, { type: "mutation" }> => "mutate" in e;
+  for (const key in endpoints) {
+    const ep: unknown = endpoints[key];
 
     // --- Query (GET) ---
     if (isQuery(ep)) {
+      const paramsSchema = paramsJsonSchema(ep.schema);
+
       app.get(`/api/${key}`, async (request, reply) => {
+        const scope = await openContext(request, reply);
+        if (!scope) return reply;
+        const params = parseQueryString(request.query as any, paramsSchema);
         try {
-          const params =
-            "input" in ep && ep.input
-              ? ep.input.parse(request.query)
-              : undefined;
-          const data = await ep.fetch(params);
-          reply.send({ endpoint: key, params, data });
-        } catch (err: any) {
-          reply.status(400).send({ error: err.message });
+          const data = await fetchQuery(ep, params, scope.ctx);
+          reply
+            .type("application/json")
+            .send(toJson({ endpoint: key, params, data: data ?? null }));
+        } catch (err) {
+          const { status, error } = errorBody(err);
+          reply.status(status).send({ error });
+        } finally {
+          scope.close();
         }
+        return reply;
+      });
+
+      // --- Live query (SSE) ---
+      app.get(`/api/${key}/live`, async (request, reply) => {
+        const scope = await openContext(request, reply);
+        if (!scope) return reply;
+        const params = parseQueryString(request.query as any, paramsSchema);
+
+        reply.hijack();
+        const res = reply.raw;
+        res.writeHead(200, {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache",
+          connection: "keep-alive",
+        });
+
+        const keepAlive = setInterval(
+          () => res.write(": keep-alive\n\n"),
+          keepAliveInterval
+        );
+        let ended = false;
+        const end = () => {
+          if (ended) return;
+          ended = true;
+          clearInterval(keepAlive);
+          unsubscribe();
+          scope.close();
+          res.end();
+        };
+
+        const unsubscribe = watchQuery(
+          ep,
+          params,
+          scope.ctx,
+          (data) => res.write(`event: update\ndata: ${toJson(data)}\n\n`),
+          (err) => {
+            const { error } = errorBody(err);
+            res.write(`event: error\ndata: ${JSON.stringify(error)}\n\n`);
+            // Deferred: errors can be raised before `unsubscribe` is assigned
+            queueMicrotask(end);
+          }
+        );
+        res.on("close", end);
       });
     }
 
     // --- Mutation (POST) ---
     if (isMutation(ep)) {
       app.post(`/api/${key}`, async (request, reply) => {
+        const scope = await openContext(request, reply);
+        if (!scope) return reply;
+        const params = request.body ?? undefined;
         try {
-          const params = ep.input ? ep.input.parse(request.body) : undefined;
-          const result = await ep.mutate(params);
-          reply.send({ endpoint: key, params, result });
-        } catch (err: any) {
-          reply.status(400).send({ error: err.message });
+          const result = await callMutation(ep, params, scope.ctx);
+          reply
+            .type("application/json")
+            .send(toJson({ endpoint: key, params, result }));
+        } catch (err) {
+          const { status, error } = errorBody(err);
+          reply.status(status).send({ error });
+        } finally {
+          scope.close();
         }
+        return reply;
       });
     }
   }
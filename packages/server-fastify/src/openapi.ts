@@ -0,0 +1,118 @@
+import {
+  endpointManifest,
+  errorJsonSchema,
+  type ApiInfo,
+  type JsonSchema,
+} from "@reactivly/server";
+
+const errorResponses = {
+  "400": { $ref: "#/components/responses/Error" },
+  "401": { $ref: "#/components/responses/Error" },
+  "403": { $ref: "#/components/responses/Error" },
+  "404": { $ref: "#/components/responses/Error" },
+  "500": { $ref: "#/components/responses/Error" },
+};
+
+const json = (schema: JsonSchema) => ({
+  "application/json": { schema },
+});
+
+// Query strings carry one parameter per property, objects and arrays as JSON
+function queryParameters(params?: JsonSchema) {
+  if (params?.type !== "object") return [];
+  const properties = (params.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (params.required ?? []) as string[];
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    ...(schema.type === "object" || schema.type === "array"
+      ? { content: json(schema) }
+      : { schema }),
+  }));
+}
+
+/** OpenAPI 3.1 document of the routes `createFastifyServer` serves */
+export function openApiDocument(
+  endpoints: Record<string, unknown>,
+  info: ApiInfo = {}
+) {
+  const paths: Record<string, object> = {};
+
+  for (const { name, kind, params } of endpointManifest(endpoints)) {
+    const envelope = (key: "data" | "result") => ({
+      description: "Success",
+      content: json({
+        type: "object",
+        properties: {
+          endpoint: { const: name },
+          params: params ?? {},
+          [key]: {},
+        },
+        required: ["endpoint"],
+      }),
+    });
+
+    if (kind === "query") {
+      const parameters = queryParameters(params);
+      paths[`/api/${name}`] = {
+        get: {
+          operationId: name,
+          summary: `Current result of ${name}`,
+          parameters,
+          responses: { "200": envelope("data"), ...errorResponses },
+        },
+      };
+      paths[`/api/${name}/live`] = {
+        get: {
+          operationId: `${name}Live`,
+          summary: `Stream ${name} as Server-Sent Events`,
+          description:
+            "Every result is sent as an `update` event, a failure as an `error` event ending the stream.",
+          parameters,
+          responses: {
+            "200": {
+              description: "Event stream",
+              content: { "text/event-stream": { schema: { type: "string" } } },
+            },
+            "401": errorResponses["401"],
+          },
+        },
+      };
+    } else {
+      paths[`/api/${name}`] = {
+        post: {
+          operationId: name,
+          summary: `Run ${name}`,
+          ...(params && {
+            requestBody: { required: true, content: json(params) },
+          }),
+          responses: { "200": envelope("result"), ...errorResponses },
+        },
+      };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: info.title ?? "Reactivly API",
+      version: info.version ?? "1.0.0",
+      ...(info.description && { description: info.description }),
+    },
+    paths,
+    components: {
+      schemas: { Error: errorJsonSchema() },
+      responses: {
+        Error: {
+          description: "Endpoint failure",
+          content: json({
+            type: "object",
+            properties: { error: { $ref: "#/components/schemas/Error" } },
+            required: ["error"],
+          }),
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import type { ErrorCode, ErrorIssue, ErrorMessage } from "@reactivly/core";
+
+// ----------------- Endpoint errors -----------------
+// Client-side codes are never sent by the server
+export type EndpointErrorCode = Exclude<ErrorCode, "timeout" | "disconnected">;
+
+/** Error thrown from endpoints and middleware, forwarded to the client */
+export class EndpointError extends Error {
+  code: EndpointErrorCode;
+  issues?: ErrorIssue[];
+
+  constructor(
+    code: EndpointErrorCode,
+    message: string = code,
+    issues?: ErrorIssue[]
+  ) {
+    super(message);
+    this.name = "EndpointError";
+    this.code = code;
+    if (issues) this.issues = issues;
+  }
+}
+
+/** Normalize anything thrown by an endpoint into an `EndpointError` */
+export function toEndpointError(err: unknown): EndpointError {
+  if (err instanceof EndpointError) return err;
+  if (err instanceof z.ZodError) {
+    return new EndpointError(
+      "validation",
+      "Invalid parameters",
+      err.issues.map(({ path, message, code }) => ({ path, message, code }))
+    );
+  }
+  // Internal details stay on the server
+  console.error(err);
+  return new EndpointError("internal", "Internal server error");
+}
+
+/** Wire representation of an endpoint failure */
+export function toErrorMessage(
+  err: unknown,
+  target: Pick<ErrorMessage, "name" | "subId" | "requestId">
+): ErrorMessage {
+  const { code, message, issues } = toEndpointError(err);
+  return { type: "error", ...target, code, message, ...(issues && { issues }) };
+}
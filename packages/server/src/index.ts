@@ -2,25 +2,123 @@ import WebSocket, { WebSocketServer } from "ws";
 import { BehaviorSubject, Subject } from "rxjs";
 import { z } from "zod";
 import type {
+  Scope,
   StoreReactiveSource,
   NotifierReactiveSource,
   Subscriber,
+  ErrorSubscriber,
   ReactiveSource,
   LiveQueryResult,
-  ClientSubscription,
+  QueryDescriptor,
+  MutationDescriptor,
+  ClientStoreDescriptor,
+  DehydratedQuery,
+  DehydratedState,
+  EndpointParams,
+  EndpointResult,
+  QueryKeys,
 } from "@reactivly/core";
+import {
+  IDLE_CLOSE_CODE,
+  codecFor,
+  diff,
+  digest,
+  encodeInline,
+  jsonCodec,
+  msgpackCodec,
+} from "@reactivly/core";
+import type { Codec } from "@reactivly/core";
 import { AsyncLocalStorage } from "node:async_hooks";
+import type { IncomingMessage, Server as HttpServer } from "node:http";
+import type { Duplex } from "node:stream";
+import { createJwt, verifyJwt } from "./jwt.js";
+import { EndpointError, toEndpointError, toErrorMessage } from "./errors.js";
+import {
+  middlewareDeps,
+  runMiddleware,
+  type Middleware,
+} from "./middleware.js";
+
+export type {
+  StoreReactiveSource,
+  NotifierReactiveSource,
+  ReactiveSource,
+  Codec,
+  QueryDescriptor,
+  MutationDescriptor,
+  ClientStoreDescriptor,
+};
+export type {
+  EndpointDescriptor,
+  EndpointParams,
+  EndpointResult,
+  QueryKeys,
+  MutationKeys,
+  ClientStoreKeys,
+  ClientStoreValue,
+  DehydratedQuery,
+  DehydratedState,
+} from "@reactivly/core";
+export { jsonCodec, msgpackCodec };
+export { createJwt, verifyJwt, parseCookie } from "./jwt.js";
+export {
+  EndpointError,
+  toEndpointError,
+  type EndpointErrorCode,
+} from "./errors.js";
+export {
+  guard,
+  chain,
+  type Middleware,
+  type GuardOptions,
+} from "./middleware.js";
+export {
+  asyncApiDocument,
+  endpointManifest,
+  errorJsonSchema,
+  paramsJsonSchema,
+  type ApiInfo,
+  type AsyncApiOptions,
+  type EndpointManifestEntry,
+  type JsonSchema,
+} from "./schema.js";
 
-export type { StoreReactiveSource, NotifierReactiveSource, ReactiveSource };
+/* ---------------- Request Context ---------------- */
+/**
+ * Augment to type `ctx.user` with what `authenticate` returns:
+ *
+ *   declare module "@reactivly/server" {
+ *     interface Register { user: User | null }
+ *   }
+ */
+export interface Register {}
+
+export type AuthUser = Register extends { user: infer TUser } ? TUser : unknown;
+
+/** Per-connection context, available to queries and mutations */
+export interface RequestContext {
+  sessionId: string;
+  /** Value returned by `authenticate`, `undefined` without the hook */
+  user: AuthUser;
+  /** HTTP upgrade request of the connection */
+  req?: IncomingMessage;
+}
 
 /* ---------------- AsyncLocalStorage ---------------- */
-const sessionALS = new AsyncLocalStorage<{ sessionId: string }>();
+const sessionALS = new AsyncLocalStorage<RequestContext>();
 function getCurrentSessionId(): string {
   const store = sessionALS.getStore();
   if (!store) throw new Error("sessionStore used outside of session context");
   return store.sessionId;
 }
 
+/** Context of the connection running the current query or mutation */
+export function getContext(): RequestContext {
+  const store = sessionALS.getStore();
+  if (!store) throw new Error("getContext used outside of session context");
+  return store;
+}
+
 /* ---------------- Stateful Stores ---------------- */
 
 /** Global store shared across sessions */
@@ -40,12 +138,23 @@ export function globalStore<T>(init: T): StoreReactiveSource<T> {
   };
 }
 
+/* ---------------- Session Lifecycle ---------------- */
+/** Drop hooks of every session-scoped store, called when a session expires */
+const sessionDisposers = new Set<(sessionId: string) => void>();
+function dropSession(sessionId: string) {
+  sessionDisposers.forEach((dispose) => dispose(sessionId));
+}
+
 /** Internal session store map */
 function _sessionStore<T>(init: T) {
   const sessions = new Map<
     string,
     { subj: BehaviorSubject<T>; notifier: NotifierReactiveSource }
   >();
+  sessionDisposers.add((sessionId) => {
+    sessions.get(sessionId)?.subj.complete();
+    sessions.delete(sessionId);
+  });
   function current(sessionId: string) {
     if (!sessions.has(sessionId)) {
       const subj = new BehaviorSubject<T>(init);
@@ -83,7 +192,9 @@ function _sessionStore<T>(init: T) {
       return { unsubscribe: () => sub.unsubscribe() };
     },
     notifyChanges(sessionId: string) {
-      return current(sessionId).notifier;
+      const { subj, notifier } = current(sessionId);
+      subj.next(subj.getValue());
+      notifier.notifyChanges();
     },
   };
 }
@@ -103,38 +214,64 @@ export function sessionStore<T>(init: T): StoreReactiveSource<T> {
   };
 }
 
-/** Client-scoped store (updated only by client) */
-export function clientStore<T>(init: T): StoreReactiveSource<T> {
+export interface ClientStore<T> extends ClientStoreDescriptor<T> {
+  /** Validate a value sent by the client and store it for its session */
+  receive(value: unknown): T;
+}
+
+/**
+ * Client-scoped store, updated only by the client (through `clientStoreSet`)
+ * and read-only on the server. Register it in the endpoint map to expose it.
+ */
+export function clientStore<T>(init: T, schema?: z.ZodType<T>): ClientStore<T> {
   const internal = _sessionStore(init);
+  const readOnly = () => {
+    throw new Error("clientStore is only updated by the client");
+  };
   return {
     scope: "session",
     kind: "stateful",
+    client: true,
+    schema,
     get: () => internal.get(getCurrentSessionId()),
-    set: (val: T) => internal.set(getCurrentSessionId(), val),
-    mutate: (fn: (prev: T) => T) => internal.mutate(getCurrentSessionId(), fn),
+    set: readOnly,
+    mutate: readOnly,
     subscribe: (fn: Subscriber<T>) =>
       internal.subscribe(getCurrentSessionId(), fn),
     notifyChanges: () => internal.notifyChanges(getCurrentSessionId()),
+    receive(value) {
+      const parsed = schema ? schema.parse(value) : (value as T);
+      internal.set(getCurrentSessionId(), parsed);
+      return parsed;
+    },
   };
 }
 
+export function isClientStore(val: unknown): val is ClientStore<unknown> {
+  return (val as ClientStore<unknown> | undefined)?.client === true;
+}
+
 /* ---------------- Derived Store ---------------- */
+// Seeds the cache before the first run: `undefined` is a result like any other
+const NO_VALUE = Symbol("no value");
+
 export interface DerivedStoreOptions<T> {
   deps?: ReactiveSource[];
   fn: () => T | Promise<T>;
   cache?: number;
-  debounce?: number;
+  debounce?: number | undefined;
 }
 export function derivedStore<T>(
   opts: DerivedStoreOptions<T>
 ): StoreReactiveSource<T> {
   const { deps = [], fn, cache = Infinity, debounce } = opts;
   const hasCache = cache !== 0;
-  let lastValue: T | undefined;
+  let lastValue: T | typeof NO_VALUE = NO_VALUE;
   let activeSubs = 0;
   const subj = hasCache
-    ? new BehaviorSubject<T | undefined>(undefined)
+    ? new BehaviorSubject<T | typeof NO_VALUE>(NO_VALUE)
     : new Subject<T>();
+  const errors = new Subject<unknown>();
   let timeout: NodeJS.Timeout | null = null;
   let running = false;
   let pending = false;
@@ -155,7 +292,10 @@ export function derivedStore<T>(
       if (hasCache) lastValue = result;
       subj.next(result);
       if (cache !== Infinity && hasCache)
-        setTimeout(() => (lastValue = undefined), cache);
+        setTimeout(() => (lastValue = NO_VALUE), cache);
+    } catch (err) {
+      if (errors.observed) errors.next(err);
+      else console.error(err);
     } finally {
       running = false;
       if (pending) {
@@ -171,7 +311,7 @@ export function derivedStore<T>(
     get: () => {
       if (!hasCache)
         throw new Error("Cannot get value from non-cached derived store");
-      if (lastValue === undefined) throw new Error("Value not yet initialized");
+      if (lastValue === NO_VALUE) throw new Error("Value not yet initialized");
       return lastValue;
     },
     set: () => {
@@ -180,14 +320,17 @@ export function derivedStore<T>(
     mutate: () => {
       throw new Error("Cannot mutate derived store");
     },
-    subscribe(fn: Subscriber<T>) {
+    subscribe(fn: Subscriber<T>, onError?: ErrorSubscriber) {
       activeSubs++;
-      if (hasCache && lastValue !== undefined) fn(lastValue);
-      else run();
-      const sub = subj.subscribe((val) => val !== undefined && fn(val));
+      // A cached value is replayed by the BehaviorSubject
+      const sub = subj.subscribe((val) => val !== NO_VALUE && fn(val));
+      const errSub = onError && errors.subscribe(onError);
+      // A run in flight (e.g. started by a dep) delivers to this subscriber too
+      if (!running && (!hasCache || lastValue === NO_VALUE)) run();
       return {
         unsubscribe() {
           sub.unsubscribe();
+          errSub?.unsubscribe();
           activeSubs--;
           if (activeSubs === 0) depSubs.forEach((s) => s.unsubscribe());
         },
@@ -249,6 +392,53 @@ export function derivedNotifier(
   };
 }
 
+export interface KeyedNotifier<TKey = unknown> extends NotifierReactiveSource {
+  /**
+   * Notifier of a single key: its subscribers re-run when that key or the
+   * whole notifier is notified, whole-notifier subscribers on any key.
+   */
+  key(key: TKey): NotifierReactiveSource;
+}
+
+/** Global notifier that can also notify one key, e.g. the id of a row */
+export function keyedNotifier<TKey = unknown>(): KeyedNotifier<TKey> {
+  const all = new Subject<void>();
+  const any = new Subject<void>();
+  const keys = new Map<string, Subject<void>>();
+  const listen = (sources: Subject<void>[], fn: Subscriber<void>) => {
+    const subs = sources.map((s) => s.subscribe(fn));
+    return { unsubscribe: () => subs.forEach((s) => s.unsubscribe()) };
+  };
+  return {
+    scope: "global",
+    kind: "stateless",
+    subscribe: (fn) => listen([all, any], fn),
+    notifyChanges: () => all.next(),
+    key(key) {
+      const id = jsonCodec.encode(key) as string;
+      return {
+        scope: "global",
+        kind: "stateless",
+        subscribe: (fn) => {
+          let subj = keys.get(id);
+          if (!subj) keys.set(id, (subj = new Subject<void>()));
+          const sub = listen([all, subj], fn);
+          return {
+            unsubscribe() {
+              sub.unsubscribe();
+              if (!subj.observed && keys.get(id) === subj) keys.delete(id);
+            },
+          };
+        },
+        notifyChanges: () => {
+          keys.get(id)?.next();
+          any.next();
+        },
+      };
+    },
+  };
+}
+
 function isReactiveSource(val: any): val is ReactiveSource {
   return (
     val &&
@@ -258,195 +448,895 @@ function isReactiveSource(val: any): val is ReactiveSource {
 }
 
 /* ---------------- Queries & Mutations ---------------- */
+// What clients send, before the schema's defaults and transforms
+type SchemaInput<TSchema> = TSchema extends z.ZodTypeAny
+  ? z.input<TSchema>
+  : undefined;
+// What `fn` gets, once parsed
+type SchemaOutput<TSchema> = TSchema extends z.ZodTypeAny
+  ? z.infer<TSchema>
+  : undefined;
+
 export interface QueryOptions<TSchema, TResult> {
   schema?: TSchema;
   fn: (
-    args: TSchema extends { parse: any } ? z.infer<TSchema> : undefined
+    args: TSchema extends { parse: any } ? z.infer<TSchema> : undefined,
+    ctx: RequestContext
   ) => TResult | Promise<TResult>;
-  deps?: ReactiveSource[];
+  /**
+   * Sources the query re-runs on, or a function of the params picking them,
+   * e.g. `({ id }) => [itemChanged.key(id)]`. Set `scope: "session"` when it
+   * returns session-scoped sources.
+   */
+  deps?: ReactiveSource[] | ((args: SchemaOutput<TSchema>) => ReactiveSource[]);
+  /** Middleware chain, re-evaluated when its deps change */
+  use?: Middleware[];
   cache?: number;
   debounce?: number;
+  /** Send JSON Patch deltas instead of full results (default: true) */
+  delta?: boolean;
+  /**
+   * `global` queries run once per params and are shared by every connection.
+   * Defaults to `session` when a dep is session-scoped, `use` is set or `fn`
+   * takes `ctx`, and to `global` otherwise.
+   */
+  scope?: Scope;
+}
+
+export interface QueryEndpoint<TParams = any, TResult = any>
+  extends QueryDescriptor<TParams, TResult> {
+  /**
+   * Live instance of the query for `params`, validated by the schema (throws
+   * otherwise). Subscribers to the same params share one instance.
+   */
+  create(params: TParams): LiveQueryResult<TResult>;
 }
+
 export function query<TSchema = undefined, TResult = any>(
   opts: QueryOptions<TSchema, TResult>
-) {
-  return (input?: ReactiveSource | ReactiveSource[]) => {
-    const inputs = Array.isArray(input) ? input : [input].filter(Boolean);
-    const allDeps = [...(opts.deps ?? []), ...inputs];
+): QueryEndpoint<SchemaInput<TSchema>, TResult> {
+  const staticDeps = typeof opts.deps === "function" ? [] : (opts.deps ?? []);
+  const scope: Scope =
+    opts.scope ??
+    (opts.fn.length > 1 ||
+    opts.use?.length ||
+    staticDeps.some((d) => d.scope === "session")
+      ? "session"
+      : "global");
+
+  // Re-runs are triggered from whichever context changed a dep: always
+  // evaluate in the context of the subscribing connection instead.
+  // Shared global instances run outside of any session.
+  const instantiate = (
+    args: any,
+    ctx: RequestContext | undefined,
+    deps: ReactiveSource[]
+  ) => {
+    const execute = async () => {
+      if (ctx) await runMiddleware(opts.use, ctx);
+      return opts.fn(args, ctx!);
+    };
     return derivedStore<TResult>({
-      deps: allDeps,
-      fn: () =>
-        opts.fn(
-          input
-            ? Array.isArray(input)
-              ? input.map((i) => ("get" in i ? i.get() : i))
-              : "get" in input
-                ? input.get()
-                : input
-            : undefined
-        ),
-      cache: opts.cache ?? 0,
+      deps: [...new Set([...deps, ...middlewareDeps(opts.use)])],
+      fn: () => (ctx ? sessionALS.run(ctx, execute) : sessionALS.exit(execute)),
+      // Shared instances keep their last result for late subscribers
+      cache: opts.cache ?? (scope === "global" ? Infinity : 0),
       debounce: opts.debounce,
     });
   };
+
+  // One live instance per params (and per session, for session queries),
+  // dropped with its last subscriber
+  const instances = new Map<
+    string,
+    { store: StoreReactiveSource<TResult>; refs: number }
+  >();
+
+  const schema = opts.schema as z.ZodTypeAny | undefined;
+  const create = (params: unknown): LiveQueryResult<TResult> => {
+    const args = schema ? schema.parse(params) : undefined;
+    const ctx = scope === "session" ? getContext() : undefined;
+    const key = `${ctx?.sessionId ?? "global"}:${jsonCodec.encode(args)}`;
+    const deps =
+      typeof opts.deps === "function"
+        ? opts.deps(args as SchemaOutput<TSchema>)
+        : staticDeps;
+    if (!ctx && deps.some((d) => d.scope === "session"))
+      throw new Error('Session-scoped deps need `scope: "session"`');
+    return {
+      subscribe(fn, onError) {
+        let instance = instances.get(key);
+        if (!instance) {
+          instance = { store: instantiate(args, ctx, deps), refs: 0 };
+          instances.set(key, instance);
+        }
+        const current = instance;
+        current.refs++;
+        const sub = current.store.subscribe(fn, onError);
+        let active = true;
+        return {
+          unsubscribe() {
+            if (!active) return;
+            active = false;
+            sub.unsubscribe();
+            if (--current.refs === 0 && instances.get(key) === current)
+              instances.delete(key);
+          },
+        };
+      },
+    };
+  };
+  return {
+    kind: "query",
+    schema: opts.schema,
+    deps: [...staticDeps, ...middlewareDeps(opts.use)],
+    delta: opts.delta !== false,
+    scope,
+    create,
+  };
 }
+
 export interface MutationOptions<
   TSchema extends z.ZodTypeAny | undefined,
   TResult,
 > {
   schema?: TSchema;
   fn: (
-    args: TSchema extends z.ZodTypeAny ? z.infer<TSchema> : undefined
+    args: TSchema extends z.ZodTypeAny ? z.infer<TSchema> : undefined,
+    ctx: RequestContext
   ) => TResult | Promise<TResult>;
+  /** Middleware chain run before `fn` */
+  use?: Middleware[];
+  /**
+   * Sources notified once `fn` succeeded (skipped if it throws), or a
+   * function of the params and result picking them, e.g.
+   * `({ id }) => [itemChanged.key(id)]` to refresh only the queries of item `id`
+   */
+  invalidates?:
+    | ReactiveSource[]
+    | ((
+        args: SchemaOutput<TSchema>,
+        result: Awaited<TResult>
+      ) => ReactiveSource[]);
+}
+
+export interface MutationEndpoint<TParams = any, TResult = any>
+  extends MutationDescriptor<TParams, TResult> {
+  /** Run the mutation in the current request context */
+  run(params: TParams): Promise<TResult>;
 }
+
 export function mutation<
   TSchema extends z.ZodTypeAny | undefined,
   TResult = void,
->(opts: MutationOptions<TSchema, TResult>) {
-  return async (
-    args: TSchema extends z.ZodTypeAny ? z.infer<TSchema> : undefined
-  ): Promise<TResult> => {
-    const parsed = opts.schema ? opts.schema.parse(args) : (undefined as any);
-    return opts.fn(parsed);
+>(
+  opts: MutationOptions<TSchema, TResult>
+): MutationEndpoint<SchemaInput<TSchema>, TResult> {
+  return {
+    kind: "mutation",
+    schema: opts.schema,
+    deps: middlewareDeps(opts.use),
+    async run(args) {
+      const ctx = getContext();
+      await runMiddleware(opts.use, ctx);
+      const parsed = opts.schema ? opts.schema.parse(args) : (undefined as any);
+      const result = await opts.fn(parsed, ctx);
+      const invalidated =
+        typeof opts.invalidates === "function"
+          ? opts.invalidates(parsed, result)
+          : (opts.invalidates ?? []);
+      new Set(invalidated).forEach((source) => source.notifyChanges());
+      return result;
+    },
   };
 }
 
+export type AnyEndpoint = QueryEndpoint | MutationEndpoint;
+
+export function isQuery(val: unknown): val is QueryEndpoint {
+  return (val as AnyEndpoint | undefined)?.kind === "query";
+}
+
+export function isMutation(val: unknown): val is MutationEndpoint {
+  return (val as AnyEndpoint | undefined)?.kind === "mutation";
+}
+
+/* ---------------- Executors ---------------- */
+// Run endpoints outside of the WS protocol, e.g. from an HTTP bridge
+
+export interface RequestScope {
+  ctx: RequestContext;
+  /** Drop the request's session stores */
+  close: () => void;
+}
+
+/** Context of a standalone request, with a session of its own */
+export function openRequestContext(
+  req: IncomingMessage,
+  user: AuthUser
+): RequestScope {
+  const ctx = { sessionId: crypto.randomUUID(), user, req };
+  return { ctx, close: () => dropSession(ctx.sessionId) };
+}
+
+/** Follow a query: `onData` gets every result until unsubscribed */
+export function watchQuery(
+  endpoint: QueryEndpoint,
+  params: unknown,
+  ctx: RequestContext,
+  onData: (data: unknown) => void,
+  onError: (err: unknown) => void
+): () => void {
+  let store: LiveQueryResult<unknown>;
+  try {
+    store = sessionALS.run(ctx, () => endpoint.create(params));
+  } catch (err) {
+    onError(err);
+    return () => {};
+  }
+  // Session stores resolve the session while subscribing
+  const sub = sessionALS.run(ctx, () => store.subscribe(onData, onError));
+  return () => sub.unsubscribe();
+}
+
+/** First result of a query */
+export function fetchQuery(
+  endpoint: QueryEndpoint,
+  params: unknown,
+  ctx: RequestContext
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | undefined;
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      fn();
+      // Delivered synchronously from a cache: unsubscribe once assigned
+      queueMicrotask(() => unsubscribe?.());
+    };
+    unsubscribe = watchQuery(
+      endpoint,
+      params,
+      ctx,
+      (data) => settle(() => resolve(data)),
+      (err) => settle(() => reject(err))
+    );
+  });
+}
+
+export function callMutation(
+  endpoint: MutationEndpoint,
+  params: unknown,
+  ctx: RequestContext
+): Promise<unknown> {
+  return sessionALS.run(ctx, () => endpoint.run(params));
+}
+
+/**
+ * Endpoints run in-process while rendering a page, with a session of their
+ * own that the browser's socket resumes
+ */
+export interface SSRContext<Endpoints> {
+  ctx: RequestContext;
+  /** First result of a query, recorded for `dehydrate` */
+  fetchQuery<K extends QueryKeys<Endpoints>>(
+    name: K,
+    params?: EndpointParams<Endpoints[K]>
+  ): Promise<EndpointResult<Endpoints[K]>>;
+  /** Session token and recorded results, to inline in the page */
+  dehydrate(): string;
+  /** Release the session, kept for the grace period for the browser to resume */
+  close(): void;
+}
+
 /* ---------------- WebSocket Server ---------------- */
+export interface ReactiveWSServerOptions {
+  /** Listen on a dedicated port */
+  port?: number;
+  /**
+   * Share an existing HTTP server instead, serving upgrades on `path`.
+   * Without `port` nor `server`, upgrades are routed by calling `attach` or
+   * `handleUpgrade` on the result.
+   */
+  server?: HttpServer;
+  /** Path upgrades are accepted on when attached (default `/live`) */
+  path?: string;
+  /** How long a disconnected session is kept for resumption (ms) */
+  sessionGracePeriod?: number;
+  /**
+   * Runs on the HTTP upgrade, e.g. to read a cookie or an `Authorization`
+   * header. Returning `false` or throwing rejects the connection with a 401,
+   * anything else becomes `ctx.user`.
+   */
+  authenticate?: (
+    req: IncomingMessage
+  ) => AuthUser | false | Promise<AuthUser | false>;
+  /**
+   * Codecs clients may negotiate through the WebSocket subprotocol, JSON is
+   * used when the client offers none.
+   */
+  codecs?: Codec[];
+  /**
+   * Buffered bytes above which a connection counts as congested: updates are
+   * held back, collapsing to the latest value per subscription, until the
+   * socket drains (default 1 MiB)
+   */
+  highWaterMark?: number;
+  /** Buffered bytes a connection may not stay above (default 16 MiB) */
+  maxBufferedAmount?: number;
+  /** How long a connection may stay above `maxBufferedAmount` (ms) */
+  slowConsumerTimeout?: number;
+  /**
+   * Ping interval (ms), `false` to disable. Sockets that didn't answer the
+   * previous ping are terminated.
+   */
+  heartbeatInterval?: number | false;
+  /** Close connections without subscriptions after this long idle (ms) */
+  idleTimeout?: number;
+  /**
+   * How long the result of a mutation sent with an `idempotencyKey` is kept
+   * to answer replays of that key without running it again (ms, default 24h)
+   */
+  idempotencyTtl?: number;
+  /** Most results kept for replays, the oldest dropped first (default 10000) */
+  idempotencyLimit?: number;
+}
+
+/** Counters across all connections of a server */
+export interface ReactiveWSServerMetrics {
+  /** Updates replaced by a newer value before they could be sent */
+  coalescedUpdates: number;
+  /** Connections closed for staying above `maxBufferedAmount` */
+  slowConsumerDisconnects: number;
+}
+
+/** Stable key of an authenticated user, `null` without one */
+function identityOf(user: AuthUser) {
+  return user == null ? null : digest(user);
+}
+
+// Session tokens last an hour (`createJwt`): connected clients get a new
+// one this often (ms)
+const SESSION_TOKEN_REFRESH = 30 * 60 * 1000;
+
+// How often a congested connection is checked for draining (ms)
+const DRAIN_INTERVAL = 50;
+
 export function createReactiveWSServer<Endpoints extends Record<string, any>>(
   factory: () => Endpoints,
-  port: number
+  portOrOptions?: number | ReactiveWSServerOptions,
+  options: ReactiveWSServerOptions = {}
 ) {
+  if (typeof portOrOptions === "object") options = portOrOptions;
+  else if (portOrOptions !== undefined)
+    options = { ...options, port: portOrOptions };
+  const {
+    port,
+    server,
+    path = "/live",
+    sessionGracePeriod = 30_000,
+    authenticate,
+    codecs = [jsonCodec, msgpackCodec],
+    highWaterMark = 1024 * 1024,
+    maxBufferedAmount = 16 * 1024 * 1024,
+    slowConsumerTimeout = 10_000,
+    heartbeatInterval = 30_000,
+    idleTimeout,
+    idempotencyTtl = 24 * 60 * 60 * 1000,
+    idempotencyLimit = 10_000,
+  } = options;
   const actions = factory();
-  const wss = new WebSocketServer({ port });
+  for (const [name, endpoint] of Object.entries(actions)) {
+    if (isQuery(endpoint) || isMutation(endpoint)) endpoint.name ??= name;
+  }
+  const metrics: ReactiveWSServerMetrics = {
+    coalescedUpdates: 0,
+    slowConsumerDisconnects: 0,
+  };
+  const authenticated = new WeakMap<IncomingMessage, AuthUser>();
+  const wss = new WebSocketServer({
+    ...(port !== undefined ? { port } : { noServer: true }),
+    // Runs for `handleUpgrade` too, so attached servers authenticate the same
+    verifyClient: authenticate
+      ? (info, done) => {
+          Promise.resolve()
+            .then(() => authenticate(info.req))
+            .then(
+              (user) => {
+                if (user === false) return done(false, 401, "Unauthorized");
+                authenticated.set(info.req, user);
+                done(true);
+              },
+              () => done(false, 401, "Unauthorized")
+            );
+        }
+      : undefined,
+    // First codec the client offers that the server supports
+    handleProtocols: (protocols) =>
+      [...protocols].find((p) => codecs.some((c) => c.name === p)) ?? false,
+  });
   const sessionMap = new Map<WebSocket, string>();
 
-  interface ActiveQuery {
-    store: LiveQueryResult<any>;
-    subscribers: Map<string, { unsubscribe: () => void }>;
+  // Sessions are kept alive while a socket uses them, then for the grace period
+  const sessionSockets = new Map<string, number>();
+  const sessionExpiry = new Map<string, NodeJS.Timeout>();
+  // Identity of the user each session was created for, only resumed by them
+  const sessionOwners = new Map<string, string | null>();
+
+  function createSession(user: AuthUser) {
+    const sessionId = crypto.randomUUID();
+    sessionOwners.set(sessionId, identityOf(user));
+    return openSession(sessionId);
   }
-  const activeQueries = new Map<string, ActiveQuery>();
 
-  function runWithSession<T>(sessionId: string, fn: () => T): T {
-    return sessionALS.run({ sessionId }, fn);
+  function openSession(sessionId: string) {
+    clearTimeout(sessionExpiry.get(sessionId));
+    sessionExpiry.delete(sessionId);
+    sessionSockets.set(sessionId, (sessionSockets.get(sessionId) ?? 0) + 1);
+    return sessionId;
   }
 
-  wss.on("connection", (ws) => {
-    const sessionId = crypto.randomUUID();
+  function releaseSession(sessionId: string, grace = sessionGracePeriod) {
+    const sockets = (sessionSockets.get(sessionId) ?? 1) - 1;
+    if (sockets > 0) return void sessionSockets.set(sessionId, sockets);
+    sessionSockets.delete(sessionId);
+    sessionExpiry.set(
+      sessionId,
+      setTimeout(() => {
+        sessionExpiry.delete(sessionId);
+        sessionOwners.delete(sessionId);
+        dropSession(sessionId);
+      }, grace)
+    );
+  }
+
+  function canResume(sessionId: string, user: AuthUser) {
+    const known = sessionSockets.has(sessionId) || sessionExpiry.has(sessionId);
+    return known && sessionOwners.get(sessionId) === identityOf(user);
+  }
+
+  // Mutations by idempotency key, running or succeeded, oldest first.
+  // Failures are forgotten so that a retry runs again.
+  const idempotentRuns = new Map<
+    string,
+    { result: Promise<unknown>; expiry: NodeJS.Timeout }
+  >();
+
+  function forgetRun(key: string) {
+    clearTimeout(idempotentRuns.get(key)?.expiry);
+    idempotentRuns.delete(key);
+  }
+
+  function runIdempotent(key: string, run: () => Promise<unknown>) {
+    const existing = idempotentRuns.get(key);
+    if (existing) return existing.result;
+    const result = run();
+    const expiry = setTimeout(() => idempotentRuns.delete(key), idempotencyTtl);
+    expiry.unref();
+    const entry = { result, expiry };
+    idempotentRuns.set(key, entry);
+    for (const oldest of idempotentRuns.keys()) {
+      if (idempotentRuns.size <= idempotencyLimit) break;
+      forgetRun(oldest);
+    }
+    result.catch(() => {
+      if (idempotentRuns.get(key) === entry) forgetRun(key);
+    });
+    return result;
+  }
+
+  wss.on("connection", (ws, req) => {
+    const user = authenticated.get(req) as AuthUser;
+    let sessionId = createSession(user);
     sessionMap.set(ws, sessionId);
+    let ctx: RequestContext = { sessionId, user, req };
+
+    const codec = codecFor(ws.protocol, codecs);
+    const send = (msg: unknown) => ws.send(codec.encode(msg));
+
+    // Half-open sockets never emit `close`: terminate the ones that stopped
+    // answering, which cleans them up through the `close` handler below
+    let alive = true;
+    ws.on("pong", () => (alive = true));
+    const heartbeat =
+      heartbeatInterval === false
+        ? undefined
+        : setInterval(() => {
+            if (!alive) return ws.terminate();
+            alive = false;
+            ws.ping();
+            // Browsers answer protocol pings but can't see them
+            send({ type: "ping" });
+          }, heartbeatInterval);
+
+    // Connections without subscriptions are closed once idle
+    let idleTimer: NodeJS.Timeout | undefined;
+    const resetIdle = () => {
+      clearTimeout(idleTimer);
+      if (idleTimeout === undefined || subscriptions.size > 0) return;
+      idleTimer = setTimeout(
+        () => ws.close(IDLE_CLOSE_CODE, "Idle timeout"),
+        idleTimeout
+      );
+    };
+
+    const sendSessionToken = () =>
+      send({ type: "session", token: createJwt({ sid: sessionId }) });
+    sendSessionToken();
+    // Renewed before it expires, so that long-lived connections can resume
+    const tokenRefresh = setInterval(sendSessionToken, SESSION_TOKEN_REFRESH);
+
+    const sendError = (
+      target: { name: string; subId?: string; requestId?: string },
+      err: unknown
+    ) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      send(toErrorMessage(err, target));
+    };
+
+    // Last value sent per subscription, the base of the next delta
+    const lastSent = new Map<string, unknown>();
+    // Digest of the result a client already has (e.g. hydrated from a server
+    // render), the first frame is skipped when it matches
+    const known = new Map<string, string>();
+
+    const writeData = (
+      name: string,
+      subId: string,
+      data: unknown,
+      delta: boolean
+    ) => {
+      const full = codec.encode({ type: "update", name, data, subId });
+      // Diff base: the value as the client decodes it, detached from `data`
+      // so that stores mutated in place still diff against what was sent
+      const sent = () => (codec.decode(full) as { data: unknown }).data;
+      const expected = known.get(subId);
+      if (expected !== undefined) {
+        known.delete(subId);
+        if (expected === digest(data)) {
+          if (delta) lastSent.set(subId, sent());
+          return;
+        }
+      }
+      if (delta && lastSent.has(subId)) {
+        const ops = diff(lastSent.get(subId), data);
+        lastSent.set(subId, sent());
+        if (ops.length === 0) return;
+        const patch = codec.encode({ type: "patch", name, ops, subId });
+        return ws.send(patch.length < full.length ? patch : full);
+      }
+      if (delta) lastSent.set(subId, sent());
+      ws.send(full);
+    };
+
+    // Updates held back while congested, only the latest one per subscription
+    const pending = new Map<
+      string,
+      { name: string; data: unknown; delta: boolean }
+    >();
+    let drainTimer: NodeJS.Timeout | undefined;
+    let overLimitSince: number | undefined;
+
+    const drain = () => {
+      if (ws.bufferedAmount > maxBufferedAmount) {
+        overLimitSince ??= Date.now();
+        if (Date.now() - overLimitSince >= slowConsumerTimeout) {
+          metrics.slowConsumerDisconnects++;
+          ws.terminate();
+        }
+        return;
+      }
+      overLimitSince = undefined;
+
+      for (const [subId, { name, data, delta }] of pending) {
+        if (ws.bufferedAmount > highWaterMark) return;
+        pending.delete(subId);
+        writeData(name, subId, data, delta);
+      }
+      clearInterval(drainTimer);
+      drainTimer = undefined;
+    };
+
+    const sendData = (
+      name: string,
+      subId: string,
+      data: unknown,
+      delta: boolean
+    ) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (pending.has(subId)) metrics.coalescedUpdates++;
+      else if (ws.bufferedAmount <= highWaterMark)
+        return writeData(name, subId, data, delta);
+
+      // Deltas are computed on flush, against what the client really has
+      pending.set(subId, { name, data, delta });
+      drainTimer ??= setInterval(drain, DRAIN_INTERVAL);
+    };
+
+    // Live subscriptions of the connection, by subId
+    const subscriptions = new Map<string, { unsubscribe: () => void }>();
+
+    const removeSubscriber = (subId: string) => {
+      subscriptions.get(subId)?.unsubscribe();
+      subscriptions.delete(subId);
+      lastSent.delete(subId);
+      known.delete(subId);
+      pending.delete(subId);
+      resetIdle();
+    };
+
+    const subscribe = (
+      name: string,
+      action: unknown,
+      subId: string,
+      params: unknown,
+      clientDigest?: unknown
+    ) => {
+      // Replayed subscriptions replace the previous one
+      if (subscriptions.has(subId)) removeSubscriber(subId);
+      if (typeof clientDigest === "string") known.set(subId, clientDigest);
+
+      // Case 1: action is a reactive store (globalStore, sessionStore…)
+      if (isReactiveSource(action)) {
+        const sub = action.subscribe((data: any) =>
+          sendData(name, subId, data, true)
+        );
+        subscriptions.set(subId, sub);
+        return resetIdle();
+      }
+
+      if (!isQuery(action)) {
+        return sendError(
+          { name, subId },
+          new EndpointError("not_found", "Unknown query: " + name)
+        );
+      }
+
+      // Case 2: action is a query, validating params and sharing an instance
+      // per params. Global instances are shared across connections.
+      let store: LiveQueryResult<unknown>;
+      try {
+        store =
+          action.scope === "global"
+            ? sessionALS.exit(() => action.create(params))
+            : action.create(params);
+      } catch (err) {
+        return sendError({ name, subId }, err);
+      }
+      let delivered = false;
+      const sub = store.subscribe(
+        (data) => {
+          delivered = true;
+          sendData(name, subId, data, action.delta);
+        },
+        (err) => {
+          const error = toEndpointError(err);
+          // A re-run crashing keeps the last result, until one succeeds.
+          // Denials (e.g. a guard after logout) revoke.
+          if (delivered && error.code === "internal") return;
+          sendError({ name, subId }, error);
+          removeSubscriber(subId);
+        }
+      );
+      subscriptions.set(subId, sub);
+      resetIdle();
+    };
+
+    resetIdle();
 
     ws.on("message", async (raw) => {
-      const msg = JSON.parse(raw.toString());
+      alive = true;
+      let msg;
+      try {
+        msg = codec.decode(Array.isArray(raw) ? Buffer.concat(raw) : raw);
+      } catch {
+        msg = null;
+      }
+      // Not a frame of the negotiated codec
+      if (!msg || typeof msg !== "object")
+        return ws.close(1007, "Invalid frame");
+
+      // Latency probe of the client, echoed right away. Not activity: it
+      // answers our heartbeats, which must not keep idle connections open.
+      if (msg.type === "ping") return send({ type: "pong", t: msg.t });
+      resetIdle();
+
+      // Resumption must be the first message, before any subscription
+      if (msg.type === "resume") {
+        const payload = verifyJwt(msg.token);
+        const sid = typeof payload === "object" ? payload?.sid : undefined;
+        if (
+          typeof sid === "string" &&
+          sid !== sessionId &&
+          canResume(sid, ctx.user)
+        ) {
+          releaseSession(sessionId, 0);
+          sessionId = openSession(sid);
+          sessionMap.set(ws, sessionId);
+          ctx = { ...ctx, sessionId };
+        }
+        return sendSessionToken();
+      }
+
       const action = actions[msg.name];
 
       if (!action) {
-        return ws.send(
-          JSON.stringify({
-            type: "error",
-            message: "Unknown action: " + msg.name,
-          })
+        return sendError(
+          { name: msg.name, subId: msg.subId, requestId: msg.requestId },
+          new EndpointError("not_found", "Unknown action: " + msg.name)
         );
       }
 
-      await runWithSession(sessionId, async () => {
+      await sessionALS.run(ctx, async () => {
         if (msg.type === "subscribe") {
-          const { subId, params } = msg;
-          const key = `${sessionId}:${msg.name}:${JSON.stringify(params)}`;
-
-          // Case 1: action is a reactive store (globalStore, sessionStore…)
-          if (isReactiveSource(action)) {
-            const sub = action.subscribe((data: any) => {
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(
-                  JSON.stringify({
-                    type: "update",
-                    name: msg.name,
-                    data,
-                    subId,
-                  })
-                );
-              }
-            });
-            activeQueries.set(key, {
-              store: action,
-              subscribers: new Map([[subId, sub]]),
-            });
-            return;
-          }
-
-          // Case 2: action is a query (function returning a store)
-          let active = activeQueries.get(key);
-          if (!active) {
-            const store = action(params);
-            if (!("subscribe" in store)) {
-              // immediate (non-reactive) result
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(
-                  JSON.stringify({
-                    type: "update",
-                    name: msg.name,
-                    data: store,
-                    subId,
-                  })
-                );
-              }
-              return;
-            }
-            active = { store, subscribers: new Map() };
-            activeQueries.set(key, active);
-          }
-
-          const sub = active.store.subscribe((data: any) => {
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(
-                JSON.stringify({ type: "update", name: msg.name, data, subId })
-              );
-            }
-          });
-          active.subscribers.set(subId, sub);
+          subscribe(msg.name, action, msg.subId, msg.params, msg.digest);
+        } else if (msg.type === "setParams") {
+          // Move a subscription to other params (and `nextSubId`) in place:
+          // the new instance is subscribed before the old one is released,
+          // and deltas continue from the value the client already has
+          const { subId, nextSubId = subId, params } = msg;
+          const previous = subscriptions.get(subId);
+          const hasBase = lastSent.has(subId);
+          const base = lastSent.get(subId);
+          subscriptions.delete(subId);
+          lastSent.delete(subId);
+          pending.delete(subId);
+          if (hasBase) lastSent.set(nextSubId, base);
+          subscribe(msg.name, action, nextSubId, params);
+          previous?.unsubscribe();
         } else if (msg.type === "unsubscribe") {
-          const { subId, params } = msg;
-          const key = `${sessionId}:${msg.name}:${JSON.stringify(params)}`;
-          const active = activeQueries.get(key);
-          if (!active) return;
-
-          const sub = active.subscribers.get(subId);
-          if (sub) {
-            sub.unsubscribe();
-            active.subscribers.delete(subId);
+          removeSubscriber(msg.subId);
+        } else if (msg.type === "mutation") {
+          if (!isMutation(action)) {
+            return sendError(
+              { name: msg.name, requestId: msg.requestId },
+              new EndpointError("not_found", "Unknown mutation: " + msg.name)
+            );
           }
-
-          if (active.subscribers.size === 0) {
-            activeQueries.delete(key);
+          const run = () => action.run(msg.params);
+          // Replays of an idempotency key get the result of the first run,
+          // from the same user only. Without authentication, from the same
+          // client, whose outbox may outlive its session.
+          const identity = identityOf(ctx.user);
+          const owner =
+            identity !== null
+              ? `user:${identity}`
+              : typeof msg.clientId === "string"
+                ? `client:${msg.clientId}`
+                : `session:${ctx.sessionId}`;
+          let result;
+          try {
+            result = await (typeof msg.idempotencyKey === "string"
+              ? runIdempotent(`${owner}:${msg.name}:${msg.idempotencyKey}`, run)
+              : run());
+          } catch (err) {
+            return sendError({ name: msg.name, requestId: msg.requestId }, err);
           }
-        } else if (msg.type === "mutation") {
-          const result = await action(msg.params);
           if (ws.readyState === WebSocket.OPEN) {
-            ws.send(
-              JSON.stringify({
-                type: "mutationResult",
-                name: msg.name,
-                data: result,
-                requestId: msg.requestId,
-              })
+            send({
+              type: "mutationResult",
+              name: msg.name,
+              data: result,
+              requestId: msg.requestId,
+            });
+          }
+        } else if (msg.type === "clientStoreSet") {
+          if (!isClientStore(action)) {
+            return sendError(
+              { name: msg.name, requestId: msg.requestId },
+              new EndpointError(
+                "not_found",
+                "Unknown client store: " + msg.name
+              )
             );
           }
+          let value;
+          try {
+            value = action.receive(msg.value);
+          } catch (err) {
+            return sendError({ name: msg.name, requestId: msg.requestId }, err);
+          }
+          // Acknowledged like a mutation, with the stored (parsed) value
+          if (ws.readyState === WebSocket.OPEN) {
+            send({
+              type: "mutationResult",
+              name: msg.name,
+              data: value,
+              requestId: msg.requestId,
+            });
+          }
         }
       });
     });
 
     ws.on("close", () => {
-      for (const [key, active] of activeQueries.entries()) {
-        if (key.startsWith(sessionId + ":")) {
-          for (const sub of active.subscribers.values()) {
-            sub.unsubscribe();
-          }
-          activeQueries.delete(key);
-        }
-      }
+      clearInterval(drainTimer);
+      clearInterval(heartbeat);
+      clearInterval(tokenRefresh);
+      clearTimeout(idleTimer);
+      for (const subId of [...subscriptions.keys()]) removeSubscriber(subId);
       sessionMap.delete(ws);
+      releaseSession(sessionId);
     });
   });
 
-  console.log(`✅ Reactive WS server running on port ${port}`);
-  return { wss, actions };
+  /** Upgrade a request to a reactive connection, e.g. from a custom router */
+  function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    wss.handleUpgrade(req, socket, head, (ws) =>
+      wss.emit("connection", ws, req)
+    );
+  }
+
+  /**
+   * Serve upgrades to `path` on an existing HTTP server. Other paths are left
+   * to the server's other `upgrade` listeners, or refused when there are none.
+   */
+  function attach(httpServer: HttpServer, atPath = path) {
+    httpServer.on("upgrade", (req, socket, head) => {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname === atPath) return handleUpgrade(req, socket, head);
+      // Nothing else would answer: don't leave the client hanging
+      if (httpServer.listenerCount("upgrade") === 1)
+        socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    });
+  }
+
+  /**
+   * Run queries in-process for a server render of `req`, authenticated like
+   * an upgrade. `dehydrate()` hands the results and the session to the page:
+   * the browser resumes the session and the server skips the first frame of
+   * subscriptions whose result it already has.
+   */
+  async function ssr(req: IncomingMessage): Promise<SSRContext<Endpoints>> {
+    let user = undefined as AuthUser | false;
+    try {
+      if (authenticate) user = await authenticate(req);
+    } catch {
+      user = false;
+    }
+    if (user === false) throw new EndpointError("unauthorized", "Unauthorized");
+
+    const sessionId = createSession(user);
+    const ctx: RequestContext = { sessionId, user, req };
+    const queries = new Map<string, DehydratedQuery>();
+    let closed = false;
+
+    return {
+      ctx,
+      async fetchQuery(name, params) {
+        const action = actions[name];
+        if (!isQuery(action))
+          throw new EndpointError("not_found", "Unknown query: " + name);
+        const data = await fetchQuery(action, params, ctx);
+        queries.set(jsonCodec.encode([name, params]) as string, {
+          endpoint: name,
+          ...(params !== undefined && { params }),
+          data,
+        });
+        return data as any;
+      },
+      dehydrate: () =>
+        encodeInline({
+          session: createJwt({ sid: sessionId }),
+          queries: [...queries.values()],
+        } satisfies DehydratedState),
+      close() {
+        if (closed) return;
+        closed = true;
+        releaseSession(sessionId);
+      },
+    };
+  }
+
+  if (port !== undefined) {
+    console.log(`✅ Reactive WS server running on port ${port}`);
+  } else if (server) {
+    attach(server);
+    console.log(`✅ Reactive WS server attached on ${path}`);
+  }
+  return { wss, actions, metrics, attach, handleUpgrade, authenticate, ssr };
 }
+
+export type ReactiveWSServer<Endpoints extends Record<string, any>> =
+  ReturnType<typeof createReactiveWSServer<Endpoints>>;
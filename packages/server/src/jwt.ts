@@ -20,8 +20,9 @@ export function parseCookie(cookieHeader?: string) {
   const result: Record<string, string> = {};
   if (!cookieHeader) return result;
   for (const pair of cookieHeader.split(";")) {
-    const [key, value] = pair.split("=").map((v) => v.trim());
-    result[key] = value;
+    const index = pair.indexOf("=");
+    if (index === -1) continue;
+    result[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
   }
   return result;
 }
\ No newline at end of file
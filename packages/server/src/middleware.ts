@@ -0,0 +1,45 @@
+import type { ReactiveSource } from "@reactivly/core";
+import type { RequestContext } from "./index.js";
+import { EndpointError, type EndpointErrorCode } from "./errors.js";
+
+// ----------------- Middleware -----------------
+export interface Middleware {
+  /** Reactive inputs: live subscriptions re-run the middleware when they change */
+  deps?: ReactiveSource[];
+  /** Runs before the endpoint `fn`, throw (e.g. an `EndpointError`) to deny */
+  handler: (ctx: RequestContext) => void | Promise<void>;
+}
+
+export interface GuardOptions {
+  deps?: ReactiveSource[];
+  check: (ctx: RequestContext) => boolean | Promise<boolean>;
+  code?: EndpointErrorCode;
+  message?: string;
+}
+
+/** Middleware denying access when `check` returns false */
+export function guard(opts: GuardOptions): Middleware {
+  const { deps, check, code = "forbidden", message } = opts;
+  return {
+    ...(deps && { deps }),
+    async handler(ctx) {
+      if (!(await check(ctx))) throw new EndpointError(code, message);
+    },
+  };
+}
+
+/** Compose middleware (or other chains) into a reusable chain */
+export function chain(...items: (Middleware | Middleware[])[]): Middleware[] {
+  return items.flat();
+}
+
+export async function runMiddleware(
+  use: Middleware[] | undefined,
+  ctx: RequestContext
+) {
+  for (const m of use ?? []) await m.handler(ctx);
+}
+
+export function middlewareDeps(use: Middleware[] | undefined) {
+  return (use ?? []).flatMap((m) => m.deps ?? []);
+}
@@ -0,0 +1,312 @@
+import { z } from "zod";
+import type { Scope } from "@reactivly/core";
+import { isClientStore, isMutation, isQuery } from "./index.js";
+
+// ----------------- JSON Schema export -----------------
+export type JsonSchema = Record<string, unknown>;
+
+/** Query or mutation as described to non-TypeScript clients */
+export interface EndpointManifestEntry {
+  name: string;
+  kind: "query" | "mutation";
+  /** Params as clients send them, `undefined` when the endpoint takes none */
+  params?: JsonSchema;
+  /** Queries only */
+  scope?: Scope;
+  /** Queries only: updates may arrive as JSON Patch deltas */
+  delta?: boolean;
+}
+
+/** JSON Schema (2020-12) of what clients send, before defaults and transforms */
+export function paramsJsonSchema(schema: unknown): JsonSchema | undefined {
+  if (!(schema instanceof z.ZodType)) return undefined;
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    io: "input",
+    // Dates, transforms… accept anything rather than failing the export
+    unrepresentable: "any",
+  });
+  return json;
+}
+
+/** Every query and mutation of an endpoint map, in declaration order */
+export function endpointManifest(
+  endpoints: Record<string, unknown>
+): EndpointManifestEntry[] {
+  const entries: EndpointManifestEntry[] = [];
+  for (const [name, ep] of Object.entries(endpoints)) {
+    if (isQuery(ep)) {
+      const params = paramsJsonSchema(ep.schema);
+      entries.push({
+        name,
+        kind: "query",
+        ...(params && { params }),
+        scope: ep.scope,
+        delta: ep.delta,
+      });
+    } else if (isMutation(ep)) {
+      const params = paramsJsonSchema(ep.schema);
+      entries.push({ name, kind: "mutation", ...(params && { params }) });
+    }
+  }
+  return entries;
+}
+
+// ----------------- AsyncAPI -----------------
+export interface ApiInfo {
+  title?: string;
+  version?: string;
+  description?: string;
+}
+
+export interface AsyncApiOptions extends ApiInfo {
+  /** Path the live protocol is served on (default `/live`) */
+  path?: string;
+}
+
+const errorSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    code: {
+      enum: [
+        "validation",
+        "unauthorized",
+        "forbidden",
+        "not_found",
+        "internal",
+      ],
+    },
+    message: { type: "string" },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          path: { type: "array", items: { type: ["string", "number"] } },
+          message: { type: "string" },
+          code: { type: "string" },
+        },
+        required: ["path", "message"],
+      },
+    },
+  },
+  required: ["code", "message"],
+};
+
+/** Schema of the `ErrorResponse`/`error` payload shared by HTTP and WS */
+export function errorJsonSchema(): JsonSchema {
+  return structuredClone(errorSchema);
+}
+
+function frame(
+  type: string,
+  properties: Record<string, JsonSchema>,
+  required: string[]
+): JsonSchema {
+  return {
+    type: "object",
+    properties: { type: { const: type }, ...properties },
+    required: ["type", ...required],
+  };
+}
+
+const anyParams = (params?: JsonSchema) => params ?? {};
+
+/**
+ * AsyncAPI 3.0 document of the WebSocket protocol: one `subscribe` and
+ * `setParams` message per query, one `mutation` message per mutation, one
+ * `clientStoreSet` message per client store, and the frames the server
+ * answers with.
+ */
+export function asyncApiDocument(
+  endpoints: Record<string, unknown>,
+  opts: AsyncApiOptions = {}
+) {
+  const messages: Record<string, JsonSchema> = {};
+  const received: string[] = [];
+  const sent: string[] = [];
+  const add = (
+    list: string[],
+    id: string,
+    payload: JsonSchema,
+    summary: string
+  ) => {
+    messages[id] = { name: id, summary, payload };
+    list.push(id);
+  };
+
+  for (const { name, kind, params } of endpointManifest(endpoints)) {
+    const endpoint = { const: name };
+    if (kind === "query") {
+      add(
+        received,
+        `subscribe.${name}`,
+        frame(
+          "subscribe",
+          {
+            name: endpoint,
+            params: anyParams(params),
+            subId: { type: "string" },
+            digest: { type: "string" },
+          },
+          ["name", "subId"]
+        ),
+        `Follow ${name}, answered with update/patch frames for subId, skipping a first result matching digest`
+      );
+      add(
+        received,
+        `setParams.${name}`,
+        frame(
+          "setParams",
+          {
+            name: endpoint,
+            params: anyParams(params),
+            subId: { type: "string" },
+            nextSubId: { type: "string" },
+          },
+          ["name", "subId"]
+        ),
+        `Move a ${name} subscription to other params`
+      );
+    } else {
+      add(
+        received,
+        `mutation.${name}`,
+        frame(
+          "mutation",
+          {
+            name: endpoint,
+            params: anyParams(params),
+            requestId: { type: "string" },
+            idempotencyKey: { type: "string" },
+            clientId: { type: "string" },
+          },
+          ["name", "requestId"]
+        ),
+        `Run ${name}, answered with mutationResult or error for requestId. Replays of an idempotencyKey get the first result.`
+      );
+    }
+  }
+
+  const str = { type: "string" };
+  for (const [name, store] of Object.entries(endpoints)) {
+    if (!isClientStore(store)) continue;
+    add(
+      received,
+      `clientStoreSet.${name}`,
+      frame(
+        "clientStoreSet",
+        {
+          name: { const: name },
+          value: anyParams(paramsJsonSchema(store.schema)),
+          requestId: str,
+        },
+        ["name", "value", "requestId"]
+      ),
+      `Write the ${name} client store, answered like a mutation`
+    );
+  }
+  add(
+    received,
+    "unsubscribe",
+    frame("unsubscribe", { name: str, subId: str }, ["subId"]),
+    "Stop following a subscription"
+  );
+  add(
+    received,
+    "resume",
+    frame("resume", { token: str }, ["token"]),
+    "Resume the session of a previous connection"
+  );
+  add(
+    sent,
+    "session",
+    frame("session", { token: str }, ["token"]),
+    "Token to resume this session with after a reconnect, renewed while connected"
+  );
+  add(
+    sent,
+    "update",
+    frame("update", { name: str, subId: str, data: {} }, ["subId", "data"]),
+    "Full result of a subscription"
+  );
+  add(
+    sent,
+    "patch",
+    frame(
+      "patch",
+      {
+        name: str,
+        subId: str,
+        ops: { type: "array", items: { type: "object" } },
+      },
+      ["subId", "ops"]
+    ),
+    "JSON Patch (RFC 6902) against the previous result of a subscription"
+  );
+  add(
+    sent,
+    "mutationResult",
+    frame("mutationResult", { name: str, requestId: str, data: {} }, [
+      "requestId",
+    ]),
+    "Result of a mutation"
+  );
+  const { properties, required } = errorSchema as {
+    properties: Record<string, JsonSchema>;
+    required: string[];
+  };
+  add(
+    sent,
+    "error",
+    frame(
+      "error",
+      { name: str, subId: str, requestId: str, ...properties },
+      required
+    ),
+    "Failed mutation (requestId) or revoked subscription (subId)"
+  );
+  add(
+    received,
+    "probe",
+    frame("ping", { t: { type: "number" } }, []),
+    "Latency probe, answered with a pong echoing t"
+  );
+  add(sent, "ping", frame("ping", {}, []), "Heartbeat");
+  add(
+    sent,
+    "pong",
+    frame("pong", { t: { type: "number" } }, []),
+    "Answer to a latency probe"
+  );
+
+  const ref = (id: string) => ({ $ref: `#/channels/live/messages/${id}` });
+  return {
+    asyncapi: "3.0.0",
+    info: {
+      title: opts.title ?? "Reactivly live API",
+      version: opts.version ?? "1.0.0",
+      ...(opts.description && { description: opts.description }),
+    },
+    defaultContentType: "application/json",
+    channels: {
+      live: {
+        address: opts.path ?? "/live",
+        description:
+          "WebSocket, negotiating the `reactivly.json` or `reactivly.msgpack` subprotocol",
+        messages,
+      },
+    },
+    operations: {
+      receive: {
+        action: "receive",
+        channel: { $ref: "#/channels/live" },
+        messages: received.map(ref),
+      },
+      send: {
+        action: "send",
+        channel: { $ref: "#/channels/live" },
+        messages: sent.map(ref),
+      },
+    },
+  };
+}